@@ -0,0 +1,560 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { InMemoryDataReceiver } from "../lib/in-memory-data-receiver";
+import {
+  FakeBrowser,
+  installFakeBrowser,
+  requestDetails,
+  settle,
+} from "../testing/fake-browser";
+import { CookieInstrument } from "./cookie-instrument";
+
+let fakeBrowser: FakeBrowser;
+let dataReceiver: InMemoryDataReceiver;
+
+const cookie = (overrides = {}) => ({
+  name: "uid",
+  value: "123",
+  domain: ".tracker.test",
+  hostOnly: false,
+  path: "/",
+  secure: true,
+  httpOnly: false,
+  sameSite: "no_restriction" as browser.cookies.SameSiteStatus,
+  session: false,
+  expirationDate: Date.UTC(2030, 0, 1) / 1000,
+  storeId: "firefox-default",
+  firstPartyDomain: "",
+  ...overrides,
+});
+
+test.beforeEach(() => {
+  fakeBrowser = installFakeBrowser();
+  dataReceiver = new InMemoryDataReceiver();
+});
+
+test.serial("records added and deleted cookies", async t => {
+  const instrument = new CookieInstrument(dataReceiver);
+  instrument.run(1);
+  await fakeBrowser.replay([
+    {
+      dispatch: "cookies.onChanged",
+      args: [{ removed: false, cookie: cookie(), cause: "explicit" }],
+    },
+    {
+      dispatch: "cookies.onChanged",
+      args: [{ removed: true, cookie: cookie(), cause: "expired" }],
+    },
+  ]);
+
+  const [added, deleted] = dataReceiver.getRecords("javascript_cookies");
+  t.is(added.change, "added");
+  t.is(added.change_cause, "explicit");
+  t.is(added.crawl_id, 1);
+  t.is(added.host, ".tracker.test");
+  t.is(added.name, "uid");
+  t.is(added.value, "123");
+  t.is(added.is_secure, 1);
+  t.is(added.is_host_only, 0);
+  t.is(added.expiry, "2030-01-01T00:00:00.000Z");
+  t.is(deleted.change, "deleted");
+  t.is(deleted.change_cause, "expired");
+  instrument.cleanup();
+  t.false(fakeBrowser.cookies.onChanged.hasListeners());
+});
+
+test.serial("records overwritten cookies as changed", async t => {
+  const instrument = new CookieInstrument(dataReceiver);
+  instrument.run(1);
+  const overwrite = (previous, current) => [
+    {
+      dispatch: "cookies.onChanged",
+      args: [{ removed: true, cookie: previous, cause: "overwrite" }],
+    },
+    {
+      dispatch: "cookies.onChanged",
+      args: [{ removed: false, cookie: current, cause: "explicit" }],
+    },
+  ];
+  await fakeBrowser.replay([
+    // Overwrites a cookie that was set before the crawl
+    ...overwrite(
+      cookie(),
+      cookie({ value: "456", expirationDate: Date.UTC(2031, 0, 1) / 1000 }),
+    ),
+    ...overwrite(
+      cookie({ value: "456", expirationDate: Date.UTC(2031, 0, 1) / 1000 }),
+      cookie({ value: "789", session: true, expirationDate: undefined }),
+    ),
+    {
+      dispatch: "cookies.onChanged",
+      args: [
+        {
+          removed: true,
+          cookie: cookie({
+            value: "789",
+            session: true,
+            expirationDate: undefined,
+          }),
+          cause: "expired_overwrite",
+        },
+      ],
+    },
+    {
+      dispatch: "cookies.onChanged",
+      args: [{ removed: false, cookie: cookie(), cause: "explicit" }],
+    },
+  ]);
+
+  const changes = dataReceiver.getRecords("javascript_cookies");
+  t.deepEqual(
+    changes.map(change => [
+      change.change,
+      change.change_cause,
+      change.value,
+      change.expiry,
+      change.previous_value,
+      change.previous_expiry,
+    ]),
+    [
+      [
+        "changed",
+        "overwrite",
+        "456",
+        "2031-01-01T00:00:00.000Z",
+        "123",
+        "2030-01-01T00:00:00.000Z",
+      ],
+      [
+        "changed",
+        "overwrite",
+        "789",
+        "9999-12-31T21:59:59.000Z",
+        "456",
+        "2031-01-01T00:00:00.000Z",
+      ],
+      [
+        "deleted",
+        "expired_overwrite",
+        "789",
+        "9999-12-31T21:59:59.000Z",
+        undefined,
+        undefined,
+      ],
+      [
+        "added",
+        "explicit",
+        "123",
+        "2030-01-01T00:00:00.000Z",
+        undefined,
+        undefined,
+      ],
+    ],
+  );
+  instrument.cleanup();
+});
+
+test.serial("forgets pending overwrites between crawls", async t => {
+  const instrument = new CookieInstrument(dataReceiver);
+  instrument.run(1);
+  await fakeBrowser.replay([
+    {
+      dispatch: "cookies.onChanged",
+      args: [{ removed: true, cookie: cookie(), cause: "overwrite" }],
+    },
+  ]);
+  instrument.cleanup();
+  instrument.run(2);
+  await fakeBrowser.replay([
+    {
+      dispatch: "cookies.onChanged",
+      args: [{ removed: false, cookie: cookie(), cause: "explicit" }],
+    },
+  ]);
+  instrument.cleanup();
+  t.deepEqual(
+    dataReceiver.getRecords("javascript_cookies").map(change => change.change),
+    ["added"],
+  );
+});
+
+test.serial("records session cookies as never expiring", async t => {
+  const instrument = new CookieInstrument(dataReceiver);
+  instrument.run(1);
+  await fakeBrowser.replay([
+    {
+      dispatch: "cookies.onChanged",
+      args: [
+        {
+          removed: false,
+          cookie: cookie({ session: true, expirationDate: undefined }),
+          cause: "explicit",
+        },
+      ],
+    },
+  ]);
+  const [added] = dataReceiver.getRecords("javascript_cookies");
+  t.is(added.is_session, 1);
+  t.is(added.expiry, "9999-12-31T21:59:59.000Z");
+  instrument.cleanup();
+});
+
+test.serial("only records cookies matching the configured urls", async t => {
+  const instrument = new CookieInstrument(dataReceiver, {
+    urls: ["https://example.com/*"],
+  });
+  instrument.run(1);
+  await fakeBrowser.replay([
+    {
+      dispatch: "cookies.onChanged",
+      args: [{ removed: false, cookie: cookie(), cause: "explicit" }],
+    },
+    {
+      dispatch: "cookies.onChanged",
+      args: [
+        {
+          removed: false,
+          cookie: cookie({ domain: "example.com" }),
+          cause: "explicit",
+        },
+      ],
+    },
+  ]);
+  t.deepEqual(
+    dataReceiver.getRecords("javascript_cookies").map(change => change.host),
+    ["example.com"],
+  );
+  instrument.cleanup();
+});
+
+test.serial("tags cookies with the script that set them", async t => {
+  const instrument = new CookieInstrument(dataReceiver, {
+    recordScriptSets: true,
+  });
+  instrument.run(1);
+  const sender = {
+    tab: { id: 1, windowId: 1, url: "https://example.com/" },
+    frameId: 0,
+    url: "https://example.com/",
+  };
+  const cookieSet = (cookieString: string) => ({
+    dispatch: "runtime.onMessage",
+    args: [
+      {
+        namespace: "javascript-instrumentation",
+        type: "logValue",
+        data: {
+          operation: "set",
+          symbol: "window.document.cookie",
+          value: cookieString,
+          scriptUrl: "https://example.com/app.js",
+          scriptLine: "10",
+          scriptCol: "5",
+          funcName: "track",
+          scriptLocEval: "",
+          callStack: "track@https://example.com/app.js:10:5",
+          timeStamp: new Date().toISOString(),
+        },
+      },
+      sender,
+    ],
+  });
+  await fakeBrowser.replay([
+    // The change arrives before the page script's message
+    {
+      dispatch: "cookies.onChanged",
+      args: [
+        {
+          removed: false,
+          cookie: cookie({ domain: ".example.com" }),
+          cause: "explicit",
+        },
+      ],
+    },
+    cookieSet(
+      "uid=123; Domain=example.com; Max-Age=3600; SameSite=None; Secure",
+    ),
+    cookieSet("rejected=1; Domain=other.test"),
+    {
+      dispatch: "cookies.onChanged",
+      args: [{ removed: false, cookie: cookie(), cause: "explicit" }],
+    },
+  ]);
+  // Changes that were not caused by a script are saved once the wait for
+  // a cookie string times out
+  for (
+    let i = 0;
+    i < 30 && dataReceiver.getRecords("javascript_cookies").length < 2;
+    i++
+  ) {
+    await settle(100);
+  }
+
+  const [scriptChange, otherChange] = dataReceiver.getRecords(
+    "javascript_cookies",
+  );
+  t.is(scriptChange.host, ".example.com");
+  t.is(scriptChange.script_url, "https://example.com/app.js");
+  t.is(scriptChange.call_stack, "track@https://example.com/app.js:10:5");
+  t.is(otherChange.host, ".tracker.test");
+  t.is(otherChange.script_url, undefined);
+
+  const [set, rejected] = dataReceiver.getRecords("javascript_cookie_sets");
+  t.is(set.tab_id, 1);
+  t.is(set.document_url, "https://example.com/");
+  t.is(set.script_url, "https://example.com/app.js");
+  t.is(
+    set.cookie_string,
+    "uid=123; Domain=example.com; Max-Age=3600; SameSite=None; Secure",
+  );
+  t.is(set.name, "uid");
+  t.is(set.value, "123");
+  t.is(set.domain, "example.com");
+  t.is(set.path, undefined);
+  t.is(set.max_age, 3600);
+  t.is(set.same_site, "none");
+  t.is(set.is_secure, 1);
+  t.is(rejected.domain, "other.test");
+  instrument.cleanup();
+  t.false(fakeBrowser.runtime.onMessage.hasListeners());
+});
+
+test.serial("saves snapshots of all cookie stores", async t => {
+  fakeBrowser.cookieStores.push({
+    id: "firefox-container-1",
+    tabIds: [2],
+    incognito: false,
+  });
+  fakeBrowser.storedCookies = [
+    cookie(),
+    cookie({ name: "isolated", firstPartyDomain: "example.com" }),
+    cookie({ storeId: "firefox-container-1", value: "456" }),
+    cookie({ domain: "other.test" }),
+  ];
+  const instrument = new CookieInstrument(dataReceiver, {
+    urls: ["https://*.tracker.test/*"],
+    snapshotCookies: true,
+  });
+  instrument.run(1);
+  await fakeBrowser.replay([
+    {
+      dispatch: "cookies.onChanged",
+      args: [{ removed: true, cookie: cookie(), cause: "overwrite" }],
+    },
+    {
+      dispatch: "cookies.onChanged",
+      args: [
+        { removed: false, cookie: cookie({ value: "789" }), cause: "explicit" },
+      ],
+    },
+  ]);
+  fakeBrowser.storedCookies = [cookie({ value: "789" })];
+  await instrument.saveCookieSnapshot(1);
+
+  const snapshots = dataReceiver.getRecords("cookie_snapshots");
+  t.deepEqual(
+    snapshots.map(snapshot => [
+      snapshot.store_id,
+      snapshot.first_party_domain,
+      snapshot.name,
+      snapshot.value,
+    ]),
+    [
+      ["firefox-default", "", "uid", "123"],
+      ["firefox-default", "example.com", "isolated", "123"],
+      ["firefox-container-1", "", "uid", "456"],
+      ["firefox-default", "", "uid", "789"],
+    ],
+  );
+  t.is(snapshots[0].crawl_id, 1);
+  t.is(snapshots[0].host, ".tracker.test");
+  t.is(snapshots[0].expiry, "2030-01-01T00:00:00.000Z");
+  t.is(snapshots[0].time_stamp, snapshots[2].time_stamp);
+  t.not(snapshots[0].time_stamp, undefined);
+  instrument.cleanup();
+});
+
+test.serial(
+  "records cookies added without an overwrite removal as added",
+  async t => {
+    fakeBrowser.storedCookies = [cookie()];
+    const instrument = new CookieInstrument(dataReceiver, {
+      snapshotCookies: true,
+    });
+    instrument.run(1);
+    // Lets the snapshot complete before the change
+    await settle();
+    await fakeBrowser.replay([
+      {
+        dispatch: "cookies.onChanged",
+        args: [
+          {
+            removed: false,
+            cookie: cookie({ value: "456" }),
+            cause: "explicit",
+          },
+        ],
+      },
+    ]);
+    const [change] = dataReceiver.getRecords("javascript_cookies");
+    t.is(change.change, "added");
+    t.is(change.change_cause, "explicit");
+    t.is(change.previous_value, undefined);
+    instrument.cleanup();
+  },
+);
+
+test.serial("tags changes with the cookie store and its tabs", async t => {
+  fakeBrowser.identities = [
+    {
+      name: "Work",
+      icon: "briefcase",
+      iconUrl: "",
+      color: "orange",
+      colorCode: "#ff9f00",
+      cookieStoreId: "firefox-container-2",
+    },
+  ];
+  fakeBrowser.cookieStores = [
+    { id: "firefox-default", tabIds: [1, 3], incognito: false },
+    { id: "firefox-container-2", tabIds: [2], incognito: false },
+  ];
+  fakeBrowser.storedCookies = [cookie({ storeId: "firefox-container-2" })];
+  const instrument = new CookieInstrument(dataReceiver, {
+    snapshotCookies: true,
+  });
+  instrument.run(1);
+  await fakeBrowser.replay([
+    {
+      dispatch: "cookies.onChanged",
+      args: [{ removed: false, cookie: cookie(), cause: "explicit" }],
+    },
+    {
+      dispatch: "cookies.onChanged",
+      args: [
+        {
+          removed: false,
+          cookie: cookie({
+            storeId: "firefox-container-2",
+            firstPartyDomain: "example.com",
+          }),
+          cause: "explicit",
+        },
+      ],
+    },
+  ]);
+
+  const [defaultChange, containerChange] = dataReceiver.getRecords(
+    "javascript_cookies",
+  );
+  t.is(defaultChange.store_id, "firefox-default");
+  t.is(defaultChange.store_name, "default");
+  t.is(defaultChange.store_tab_ids, "[1,3]");
+  t.is(defaultChange.tab_id, undefined);
+  t.is(containerChange.store_id, "firefox-container-2");
+  t.is(containerChange.store_name, "Work");
+  t.is(containerChange.store_tab_ids, "[2]");
+  t.is(containerChange.tab_id, 2);
+  t.is(containerChange.first_party_domain, "example.com");
+  const [snapshot] = dataReceiver.getRecords("cookie_snapshots");
+  t.is(snapshot.store_name, "Work");
+  instrument.cleanup();
+});
+
+test.serial("tags cookies with the response that set them", async t => {
+  const instrument = new CookieInstrument(dataReceiver, {
+    recordResponseSets: true,
+  });
+  instrument.run(1);
+  const response = (
+    requestId: string,
+    setCookie: string,
+    fromCache = false,
+  ) => ({
+    ...requestDetails({
+      requestId,
+      url: "https://tracker.test/sync?id=123",
+      timeStamp: Date.now(),
+    }),
+    statusCode: 200,
+    responseHeaders: [
+      { name: "Content-Type", value: "image/gif" },
+      { name: "Set-Cookie", value: setCookie },
+    ],
+    fromCache,
+  });
+  await fakeBrowser.replay([
+    // The change arrives before the response has completed
+    {
+      dispatch: "cookies.onChanged",
+      args: [{ removed: false, cookie: cookie(), cause: "explicit" }],
+    },
+    {
+      dispatch: "webRequest.onBeforeRedirect",
+      args: [
+        {
+          ...response(
+            "7",
+            "session=1; HttpOnly\nuid=123; Domain=tracker.test; Secure",
+          ),
+          redirectUrl: "https://example.com/",
+        },
+      ],
+    },
+    {
+      dispatch: "webRequest.onCompleted",
+      args: [response("8", "other=1", true)],
+    },
+    {
+      dispatch: "webRequest.onCompleted",
+      args: [response("9", "session=1; HttpOnly")],
+    },
+    {
+      dispatch: "cookies.onChanged",
+      args: [
+        {
+          removed: false,
+          cookie: cookie({
+            name: "session",
+            value: "1",
+            domain: "tracker.test",
+            hostOnly: true,
+            httpOnly: true,
+          }),
+          cause: "explicit",
+        },
+      ],
+    },
+    {
+      dispatch: "cookies.onChanged",
+      args: [
+        {
+          removed: false,
+          cookie: cookie({ name: "other", value: "1" }),
+          cause: "explicit",
+        },
+      ],
+    },
+  ]);
+  for (
+    let i = 0;
+    i < 30 && dataReceiver.getRecords("javascript_cookies").length < 3;
+    i++
+  ) {
+    await settle(100);
+  }
+
+  t.deepEqual(
+    dataReceiver
+      .getRecords("javascript_cookies")
+      .map(change => [change.name, change.request_id, change.script_url]),
+    [
+      ["uid", "7", undefined],
+      ["session", "7", undefined],
+      ["other", undefined, undefined],
+    ],
+  );
+  instrument.cleanup();
+  t.false(fakeBrowser.webRequest.onBeforeRedirect.hasListeners());
+  t.false(fakeBrowser.webRequest.onCompleted.hasListeners());
+});
@@ -1,17 +1,114 @@
+import { CookieJar } from "../lib/cookie-jar";
+import { CookieSets } from "../lib/cookie-sets";
+import { CookieStores } from "../lib/cookie-stores";
+import { parseCookieString } from "../lib/cookie-string";
+import { DataReceiver } from "../lib/data-receiver";
+import {
+  CookieInstrumentConfig,
+  validateCookieInstrumentConfig,
+} from "../lib/instrument-config";
+import { urlMatchesPatterns } from "../lib/match-patterns";
 import { boolToInt, escapeString } from "../lib/string-utils";
 import Cookie = browser.cookies.Cookie;
 import OnChangedCause = browser.cookies.OnChangedCause;
-import { JavascriptCookieChange } from "../schema";
+import {
+  CookieSnapshot,
+  JavascriptCookieChange,
+  JavascriptCookieSet,
+} from "../schema";
+import {
+  WebRequestOnBeforeRedirectEventDetails,
+  WebRequestOnCompletedEventDetails,
+} from "../types/browser-web-request-event-details";
+import {
+  getCurrentVisitId,
+  NavigationInstrument,
+} from "./navigation-instrument";
+
+/**
+ * Returns the URL that a cookie is sent to, for matching against the
+ * configured match patterns
+ *
+ * @param cookie
+ */
+const cookieUrl = (cookie: Cookie) =>
+  (cookie.secure ? "https" : "http") +
+  "://" +
+  cookie.domain.replace(/^\./, "") +
+  cookie.path;
+
+/**
+ * Returns the expiry of a cookie as an ISO date string, which is in the far
+ * future for session cookies
+ *
+ * @param cookie
+ */
+const cookieExpiry = (cookie: Cookie) => {
+  // Expiry time (in seconds)
+  // A comment from pre-webextension code, which may still be valid:
+  // May return ~Max(int64). I believe this is a session
+  // cookie which doesn't expire. Sessions cookies with
+  // non-max expiry time expire after session or at expiry.
+  const expiryTime = cookie.expirationDate; // returns seconds
+  if (!cookie.expirationDate || expiryTime === 9223372036854776000) {
+    return "9999-12-31T21:59:59.000Z";
+  }
+  const expiryTimeDate = new Date(expiryTime * 1000); // requires milliseconds
+  return expiryTimeDate.toISOString();
+};
+
+/**
+ * Sets the fields that describe the cookie itself
+ *
+ * @param update
+ * @param cookie
+ */
+const setCookieAttributes = (
+  update: JavascriptCookieChange | CookieSnapshot,
+  cookie: Cookie,
+) => {
+  update.expiry = cookieExpiry(cookie);
+  update.is_http_only = boolToInt(cookie.httpOnly);
+  update.is_host_only = boolToInt(cookie.hostOnly);
+  update.is_session = boolToInt(cookie.session);
+
+  update.host = escapeString(cookie.domain);
+  update.is_secure = boolToInt(cookie.secure);
+  update.name = escapeString(cookie.name);
+  update.path = escapeString(cookie.path);
+  update.value = escapeString(cookie.value);
+  update.same_site = escapeString(cookie.sameSite);
+  update.first_party_domain = escapeString(cookie.firstPartyDomain);
+};
 
 export class CookieInstrument {
-  private readonly dataReceiver;
+  private readonly dataReceiver: DataReceiver;
+  private readonly config: CookieInstrumentConfig;
+  private readonly navigationInstrument: NavigationInstrument;
+  private readonly cookieSets = new CookieSets();
+  // The cookies whose overwrite removal was seen, until their addition
+  // arrives
+  private readonly overwrittenCookies = new CookieJar();
+  private readonly cookieStores = new CookieStores();
   private onChangedListener;
+  private onMessageListener;
+  private onBeforeRedirectListener;
+  private onCompletedListener;
 
-  constructor(dataReceiver) {
+  constructor(
+    dataReceiver: DataReceiver,
+    config: CookieInstrumentConfig = {},
+    navigationInstrument?: NavigationInstrument,
+  ) {
     this.dataReceiver = dataReceiver;
+    this.config = validateCookieInstrumentConfig(config);
+    this.navigationInstrument = navigationInstrument;
   }
 
   public run(crawlID) {
+    this.overwrittenCookies.clear();
+    this.cookieStores.clear();
+
     // Instrument cookie changes
     this.onChangedListener = async (changeInfo: {
       /** True if a cookie was removed. */
@@ -21,55 +118,266 @@ export class CookieInstrument {
       /** The underlying reason behind the cookie's change. */
       cause: OnChangedCause;
     }) => {
-      const change = changeInfo.removed ? "deleted" : "added";
+      if (!urlMatchesPatterns(cookieUrl(changeInfo.cookie), this.config.urls)) {
+        return;
+      }
+
+      const cookie: Cookie = changeInfo.cookie;
+
+      // Firefox reports overwriting a cookie as the removal of the old cookie
+      // followed by the addition of the new one, which are recorded as a
+      // single change
+      if (changeInfo.removed && changeInfo.cause === "overwrite") {
+        this.overwrittenCookies.set(cookie);
+        return;
+      }
+      const previous = changeInfo.removed
+        ? undefined
+        : this.overwrittenCookies.get(cookie);
+      if (previous) {
+        this.overwrittenCookies.delete(cookie);
+      }
 
-      // TODO: Support other cookie operations
-      if (change === "deleted" || change === "added" || change === "changed") {
-        const update = {} as JavascriptCookieChange;
+      const update = {} as JavascriptCookieChange;
 
-        update.change = change;
+      if (previous) {
+        update.change = "changed";
+        update.change_cause = "overwrite";
+        update.previous_value = escapeString(previous.value);
+        update.previous_expiry = cookieExpiry(previous);
+      } else {
+        update.change = changeInfo.removed ? "deleted" : "added";
         update.change_cause = changeInfo.cause;
-        update.crawl_id = crawlID;
+      }
+      update.crawl_id = crawlID;
+
+      // Cookie changes are not tied to a tab, so they can only be
+      // attributed to a visit when a single tab is being visited
+      const visit = this.navigationInstrument
+        ? this.navigationInstrument.getUnambiguousVisit()
+        : undefined;
+      if (visit) {
+        update.visit_id = visit.visitId;
+        update.tab_id = visit.tabId;
+      }
+      // The tabs using the cookie store are only known after the lookup
+      // below, by when they may have navigated elsewhere
+      const visitIds = this.navigationInstrument
+        ? this.navigationInstrument.getVisitIds()
+        : {};
 
-        const cookie: Cookie = changeInfo.cookie;
-
-        // Expiry time (in seconds)
-        // A comment from pre-webextension code, which may still be valid:
-        // May return ~Max(int64). I believe this is a session
-        // cookie which doesn't expire. Sessions cookies with
-        // non-max expiry time expire after session or at expiry.
-        const expiryTime = cookie.expirationDate; // returns seconds
-        let expiryTimeString;
-        if (!cookie.expirationDate || expiryTime === 9223372036854776000) {
-          expiryTimeString = "9999-12-31T21:59:59.000Z";
-        } else {
-          const expiryTimeDate = new Date(expiryTime * 1000); // requires milliseconds
-          expiryTimeString = expiryTimeDate.toISOString();
+      setCookieAttributes(update, cookie);
+      update.time_stamp = new Date().toISOString();
+
+      // Cookie stores are shared by all tabs of a container (or of the
+      // default or private browsing context), so changes can be attributed
+      // to a tab when it is the only one using the store
+      const [storeName, storeTabIds] = await Promise.all([
+        this.cookieStores.getName(cookie.storeId),
+        this.cookieStores.getTabIds(cookie.storeId),
+      ]);
+      update.store_id = escapeString(cookie.storeId);
+      if (storeName !== undefined) {
+        update.store_name = escapeString(storeName);
+      }
+      update.store_tab_ids = escapeString(JSON.stringify(storeTabIds));
+      if (storeTabIds.length === 1) {
+        update.tab_id = storeTabIds[0];
+        update.visit_id = visitIds[storeTabIds[0]];
+      }
+
+      // The cookie string is logged by the page script, or seen once the
+      // response completes, and may arrive shortly after the change, so we
+      // wait for it for a while. Scripts can not set HttpOnly cookies.
+      if (
+        this.config.recordResponseSets ||
+        (this.config.recordScriptSets && !cookie.httpOnly)
+      ) {
+        const cookieSet = await this.cookieSets.get(
+          cookie,
+          changeInfo.removed,
+          Date.now(),
+          1000,
+        );
+        if (cookieSet && cookieSet.requestId !== undefined) {
+          update.request_id = cookieSet.requestId;
+        } else if (cookieSet) {
+          update.script_url = escapeString(cookieSet.scriptUrl);
+          update.call_stack = escapeString(cookieSet.callStack);
         }
-        update.expiry = expiryTimeString;
-        update.is_http_only = boolToInt(cookie.httpOnly);
-        update.is_host_only = boolToInt(cookie.hostOnly);
-        update.is_session = boolToInt(cookie.session);
-
-        update.host = escapeString(cookie.domain);
-        update.is_secure = boolToInt(cookie.secure);
-        update.name = escapeString(cookie.name);
-        update.path = escapeString(cookie.path);
-        update.value = escapeString(cookie.value);
-        update.same_site = escapeString(cookie.sameSite);
-        update.first_party_domain = escapeString(cookie.firstPartyDomain);
-
-        update.time_stamp = new Date().toISOString();
-
-        this.dataReceiver.saveRecord("javascript_cookies", update);
       }
+
+      this.dataReceiver.saveRecord("javascript_cookies", update);
     };
     browser.cookies.onChanged.addListener(this.onChangedListener);
+
+    if (this.config.recordScriptSets) {
+      // Listen for the sets of document.cookie logged by the page script
+      this.onMessageListener = (msg, sender) => {
+        if (
+          msg.namespace &&
+          msg.namespace === "javascript-instrumentation" &&
+          msg.type === "logValue" &&
+          msg.data.symbol === "window.document.cookie" &&
+          msg.data.operation === "set" &&
+          sender.tab
+        ) {
+          this.logScriptCookieSet(msg.data, sender, crawlID);
+        }
+      };
+      browser.runtime.onMessage.addListener(this.onMessageListener);
+    }
+
+    if (this.config.recordResponseSets) {
+      // Responses set cookies both when they complete and when they redirect
+      this.onBeforeRedirectListener = (
+        details: WebRequestOnBeforeRedirectEventDetails,
+      ) => {
+        this.addResponseCookieSets(details);
+      };
+      this.onCompletedListener = (
+        details: WebRequestOnCompletedEventDetails,
+      ) => {
+        this.addResponseCookieSets(details);
+      };
+      const filter = { urls: ["<all_urls>"] };
+      browser.webRequest.onBeforeRedirect.addListener(
+        this.onBeforeRedirectListener,
+        filter,
+        ["responseHeaders"],
+      );
+      browser.webRequest.onCompleted.addListener(
+        this.onCompletedListener,
+        filter,
+        ["responseHeaders"],
+      );
+    }
+
+    if (this.config.snapshotCookies) {
+      this.saveCookieSnapshot(crawlID).catch(error => {
+        this.dataReceiver.logError("Unable to save cookie snapshot: " + error);
+      });
+    }
+  }
+
+  /**
+   * Saves the cookies in all cookie stores to `cookie_snapshots`
+   *
+   * @param crawlID
+   */
+  public async saveCookieSnapshot(crawlID) {
+    const timeStamp = new Date().toISOString();
+    const cookieStores = await browser.cookies.getAllCookieStores();
+    for (const cookieStore of cookieStores) {
+      // A null firstPartyDomain returns the cookies of all first-party
+      // domains, and is required when first-party isolation is enabled
+      const cookies = await browser.cookies.getAll({
+        storeId: cookieStore.id,
+        firstPartyDomain: null,
+      });
+      for (const cookie of cookies) {
+        if (!urlMatchesPatterns(cookieUrl(cookie), this.config.urls)) {
+          continue;
+        }
+        const update = {} as CookieSnapshot;
+        update.crawl_id = crawlID;
+        update.store_id = escapeString(cookie.storeId);
+        const storeName = await this.cookieStores.getName(cookie.storeId);
+        if (storeName !== undefined) {
+          update.store_name = escapeString(storeName);
+        }
+        setCookieAttributes(update, cookie);
+        update.time_stamp = timeStamp;
+        this.dataReceiver.saveRecord("cookie_snapshots", update);
+      }
+    }
   }
 
   public cleanup() {
     if (this.onChangedListener) {
       browser.cookies.onChanged.removeListener(this.onChangedListener);
     }
+    if (this.onMessageListener) {
+      browser.runtime.onMessage.removeListener(this.onMessageListener);
+    }
+    if (this.onBeforeRedirectListener) {
+      browser.webRequest.onBeforeRedirect.removeListener(
+        this.onBeforeRedirectListener,
+      );
+    }
+    if (this.onCompletedListener) {
+      browser.webRequest.onCompleted.removeListener(this.onCompletedListener);
+    }
+  }
+
+  private addResponseCookieSets(
+    details:
+      | WebRequestOnBeforeRedirectEventDetails
+      | WebRequestOnCompletedEventDetails,
+  ) {
+    // Cookies are not set again by responses from the cache
+    if (details.fromCache || !details.responseHeaders) {
+      return;
+    }
+    details.responseHeaders
+      .filter(header => header.name.toLowerCase() === "set-cookie")
+      // Firefox joins multiple Set-Cookie headers with newlines
+      .forEach(header =>
+        header.value.split("\n").forEach(cookieString => {
+          if (cookieString.trim()) {
+            this.cookieSets.add({
+              url: details.url,
+              cookie: parseCookieString(cookieString),
+              timeStamp: details.timeStamp,
+              requestId: details.requestId,
+            });
+          }
+        }),
+      );
+  }
+
+  private logScriptCookieSet(data, sender, crawlID) {
+    const cookieString = String(data.value);
+    const parsed = parseCookieString(cookieString);
+    this.cookieSets.add({
+      url: sender.url,
+      scriptUrl: data.scriptUrl,
+      callStack: data.callStack,
+      cookie: parsed,
+      timeStamp: new Date(data.timeStamp).getTime(),
+    });
+
+    const update = {} as JavascriptCookieSet;
+    update.crawl_id = crawlID;
+    update.visit_id = getCurrentVisitId(
+      this.navigationInstrument,
+      sender.tab.id,
+    );
+    update.tab_id = sender.tab.id;
+    update.frame_id = sender.frameId;
+    update.document_url = escapeString(sender.url);
+    update.top_level_url = escapeString(sender.tab.url);
+    update.script_url = escapeString(data.scriptUrl);
+    update.script_line = escapeString(data.scriptLine);
+    update.script_col = escapeString(data.scriptCol);
+    update.func_name = escapeString(data.funcName);
+    update.call_stack = escapeString(data.callStack);
+    update.cookie_string = escapeString(cookieString);
+    update.name = escapeString(parsed.name);
+    update.value = escapeString(parsed.value);
+    if (parsed.domain !== undefined) {
+      update.domain = escapeString(parsed.domain);
+    }
+    if (parsed.path !== undefined) {
+      update.path = escapeString(parsed.path);
+    }
+    update.expires = parsed.expires;
+    update.max_age = parsed.maxAge;
+    if (parsed.sameSite !== undefined) {
+      update.same_site = escapeString(parsed.sameSite);
+    }
+    update.is_secure = boolToInt(parsed.secure);
+    update.time_stamp = data.timeStamp;
+    this.dataReceiver.saveRecord("javascript_cookie_sets", update);
   }
 }
@@ -0,0 +1,143 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { InMemoryDataReceiver } from "../lib/in-memory-data-receiver";
+import {
+  FakeBrowser,
+  installFakeBrowser,
+  requestEvents,
+  settle,
+} from "../testing/fake-browser";
+import { DnsInstrument, DnsResolver } from "./dns-instrument";
+
+let fakeBrowser: FakeBrowser;
+let dataReceiver: InMemoryDataReceiver;
+let resolvedHostnames: string[];
+
+const records: { [hostname: string]: browser.dns.DNSRecord } = {
+  "metrics.example.com": {
+    canonicalName: "example.tracker.test",
+    isTRR: "false",
+    addresses: ["203.0.113.7"],
+  },
+  "www.example.com": {
+    canonicalName: "www.example.com",
+    isTRR: "false",
+    addresses: ["198.51.100.1", "2001:db8::1"],
+  },
+};
+
+const fakeResolver: DnsResolver = async (hostname, flags) => {
+  resolvedHostnames.push(hostname + " " + flags.join(","));
+  if (!records[hostname]) {
+    throw new Error("NS_ERROR_UNKNOWN_HOST");
+  }
+  return records[hostname];
+};
+
+test.beforeEach(() => {
+  fakeBrowser = installFakeBrowser();
+  dataReceiver = new InMemoryDataReceiver();
+  resolvedHostnames = [];
+});
+
+test.serial("resolves the canonical name of each hostname once", async t => {
+  const instrument = new DnsInstrument(
+    dataReceiver,
+    {},
+    undefined,
+    fakeResolver,
+  );
+  instrument.run(1);
+  await fakeBrowser.replay([
+    ...requestEvents({
+      requestId: "1",
+      url: "https://www.example.com/",
+      ip: "198.51.100.1",
+    }),
+    ...requestEvents({
+      requestId: "2",
+      url: "https://metrics.example.com/collect",
+      type: "xmlhttprequest",
+      ip: "203.0.113.7",
+    }),
+    ...requestEvents({
+      requestId: "3",
+      url: "https://metrics.example.com/collect?again",
+      type: "xmlhttprequest",
+    }),
+    ...requestEvents({ requestId: "4", url: "https://198.51.100.1/" }),
+  ]);
+  await settle();
+
+  t.deepEqual(resolvedHostnames, [
+    "www.example.com canonical_name",
+    "metrics.example.com canonical_name",
+  ]);
+  const [direct, cloaked] = dataReceiver.getRecords("dns_responses");
+  t.is(direct.crawl_id, 1);
+  t.is(direct.tab_id, 1);
+  t.is(direct.request_id, "1");
+  t.is(direct.hostname, "www.example.com");
+  t.is(direct.canonical_name, "www.example.com");
+  t.is(direct.is_cname, 0);
+  t.is(direct.addresses, JSON.stringify(["198.51.100.1", "2001:db8::1"]));
+  t.is(direct.used_address, "198.51.100.1");
+  t.is(direct.is_TRR, 0);
+  t.is(cloaked.request_id, "2");
+  t.is(cloaked.hostname, "metrics.example.com");
+  t.is(cloaked.canonical_name, "example.tracker.test");
+  t.is(cloaked.is_cname, 1);
+  t.is(cloaked.used_address, "203.0.113.7");
+  instrument.cleanup();
+});
+
+test.serial("only resolves the hostnames of matching requests", async t => {
+  const instrument = new DnsInstrument(
+    dataReceiver,
+    { urls: ["*://*.example.com/*"] },
+    undefined,
+    fakeResolver,
+  );
+  instrument.run(1);
+  await fakeBrowser.replay([
+    ...requestEvents({ requestId: "1", url: "https://other.test/" }),
+    ...requestEvents({ requestId: "2", url: "https://www.example.com/" }),
+  ]);
+  await settle();
+
+  t.deepEqual(resolvedHostnames, ["www.example.com canonical_name"]);
+  instrument.cleanup();
+});
+
+test.serial("logs hostnames that cannot be resolved", async t => {
+  const instrument = new DnsInstrument(
+    dataReceiver,
+    {},
+    undefined,
+    fakeResolver,
+  );
+  instrument.run(1);
+  await fakeBrowser.replay(
+    requestEvents({ requestId: "1", url: "https://gone.example.com/" }),
+  );
+  await settle();
+
+  t.deepEqual(dataReceiver.getRecords("dns_responses"), []);
+  t.deepEqual(dataReceiver.errors, [
+    "Unable to resolve gone.example.com: Error: NS_ERROR_UNKNOWN_HOST",
+  ]);
+  instrument.cleanup();
+});
+
+test.serial("removes its listener on cleanup", t => {
+  const instrument = new DnsInstrument(
+    dataReceiver,
+    {},
+    undefined,
+    fakeResolver,
+  );
+  instrument.run(1);
+  t.true(fakeBrowser.webRequest.onCompleted.hasListeners());
+  instrument.cleanup();
+  t.false(fakeBrowser.webRequest.onCompleted.hasListeners());
+});
@@ -0,0 +1,135 @@
+import { DataReceiver } from "../lib/data-receiver";
+import {
+  DnsInstrumentConfig,
+  validateDnsInstrumentConfig,
+} from "../lib/instrument-config";
+import { boolToInt, escapeString } from "../lib/string-utils";
+import { DnsResponse } from "../schema";
+import { WebRequestOnCompletedEventDetails } from "../types/browser-web-request-event-details";
+import {
+  getCurrentVisitId,
+  NavigationInstrument,
+} from "./navigation-instrument";
+
+/**
+ * Resolves a hostname, with the same signature as browser.dns.resolve
+ */
+export type DnsResolver = (
+  hostname: string,
+  flags: browser.dns.ResolveFlags,
+) => Promise<browser.dns.DNSRecord>;
+
+const browserDnsResolver: DnsResolver = (hostname, flags) =>
+  browser.dns.resolve(hostname, flags);
+
+/**
+ * IP addresses in URLs need no resolving. IPv6 addresses are enclosed in
+ * brackets in URL hostnames.
+ *
+ * @param hostname
+ */
+const isIpAddress = (hostname: string) =>
+  /^\d+\.\d+\.\d+\.\d+$/.test(hostname) || hostname.indexOf("[") === 0;
+
+/**
+ * Resolves the hostname of each request the first time one to it completes,
+ * and saves its canonical name and addresses to `dns_responses`. Comparing
+ * the canonical name to the hostname reveals first-party subdomains that are
+ * CNAME records pointing at third parties (CNAME cloaking).
+ */
+export class DnsInstrument {
+  private readonly dataReceiver: DataReceiver;
+  private readonly config: DnsInstrumentConfig;
+  private readonly navigationInstrument: NavigationInstrument;
+  private readonly resolve: DnsResolver;
+  private resolvedHostnames = new Set<string>();
+  private onCompletedListener;
+
+  /**
+   * @param dataReceiver
+   * @param config
+   * @param navigationInstrument
+   * @param resolve Used instead of browser.dns.resolve, eg in tests
+   */
+  constructor(
+    dataReceiver: DataReceiver,
+    config: DnsInstrumentConfig = {},
+    navigationInstrument?: NavigationInstrument,
+    resolve: DnsResolver = browserDnsResolver,
+  ) {
+    this.dataReceiver = dataReceiver;
+    this.config = validateDnsInstrumentConfig(config);
+    this.navigationInstrument = navigationInstrument;
+    this.resolve = resolve;
+  }
+
+  public run(crawlID) {
+    this.resolvedHostnames.clear();
+    this.onCompletedListener = (details: WebRequestOnCompletedEventDetails) => {
+      const hostname = new URL(details.url).hostname;
+      if (
+        !hostname ||
+        isIpAddress(hostname) ||
+        this.resolvedHostnames.has(hostname)
+      ) {
+        return;
+      }
+      // Remember the hostname right away, so that the requests that
+      // complete while it is being resolved do not resolve it again
+      this.resolvedHostnames.add(hostname);
+      this.saveDnsResponse(
+        hostname,
+        details,
+        crawlID,
+        getCurrentVisitId(this.navigationInstrument, details.tabId),
+      );
+    };
+    browser.webRequest.onCompleted.addListener(this.onCompletedListener, {
+      urls: this.config.urls,
+    });
+  }
+
+  public cleanup() {
+    if (this.onCompletedListener) {
+      browser.webRequest.onCompleted.removeListener(this.onCompletedListener);
+    }
+  }
+
+  private async saveDnsResponse(
+    hostname: string,
+    details: WebRequestOnCompletedEventDetails,
+    crawlID,
+    visitId: number,
+  ) {
+    let record: browser.dns.DNSRecord;
+    try {
+      record = await this.resolve(hostname, ["canonical_name"]);
+    } catch (error) {
+      this.dataReceiver.logError(
+        "Unable to resolve " + hostname + ": " + error,
+      );
+      return;
+    }
+
+    const update = {} as DnsResponse;
+    update.crawl_id = crawlID;
+    update.visit_id = visitId;
+    update.tab_id = details.tabId;
+    update.request_id = details.requestId;
+    update.hostname = escapeString(hostname);
+    if (record.canonicalName) {
+      update.canonical_name = escapeString(record.canonicalName);
+    }
+    update.is_cname = boolToInt(
+      !!record.canonicalName && record.canonicalName !== hostname,
+    );
+    update.addresses = JSON.stringify(record.addresses);
+    if (details.ip) {
+      update.used_address = escapeString(details.ip);
+    }
+    // Typed as a string, but actually a boolean
+    update.is_TRR = boolToInt(String(record.isTRR) === "true");
+    update.time_stamp = new Date().toISOString();
+    this.dataReceiver.saveRecord("dns_responses", update);
+  }
+}
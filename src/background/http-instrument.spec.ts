@@ -0,0 +1,691 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { InMemoryDataReceiver } from "../lib/in-memory-data-receiver";
+import {
+  FakeBrowser,
+  FakeRequest,
+  installFakeBrowser,
+  requestDetails,
+  requestEvents,
+  ScriptedEvent,
+  settle,
+} from "../testing/fake-browser";
+import { HttpInstrument } from "./http-instrument";
+
+let fakeBrowser: FakeBrowser;
+let dataReceiver: InMemoryDataReceiver;
+
+test.beforeEach(() => {
+  fakeBrowser = installFakeBrowser();
+  fakeBrowser.openTab({ id: 1, url: "https://example.com/" });
+  dataReceiver = new InMemoryDataReceiver();
+});
+
+test.serial("records requests and responses", async t => {
+  const instrument = new HttpInstrument(dataReceiver);
+  instrument.run(1);
+  await fakeBrowser.replay(
+    requestEvents({
+      requestId: "1",
+      url: "https://tracker.test/pixel.gif",
+      type: "image",
+      documentUrl: "https://example.com/",
+      requestHeaders: [{ name: "Accept", value: "image/*" }],
+      responseHeaders: [{ name: "Content-Type", value: "image/gif" }],
+    }),
+  );
+
+  const [request] = dataReceiver.getRecords("http_requests");
+  t.is(request.crawl_id, 1);
+  t.is(request.request_id, "1");
+  t.is(request.url, "https://tracker.test/pixel.gif");
+  t.is(request.method, "GET");
+  t.is(request.resource_type, "image");
+  t.is(request.headers, JSON.stringify([["Accept", "image/*"]]));
+  t.is(request.top_level_url, "https://example.com/");
+  t.is(request.is_third_party_channel, 1);
+  t.is(request.is_third_party_to_top_window, 1);
+
+  const [response] = dataReceiver.getRecords("http_responses");
+  t.is(response.request_id, "1");
+  t.is(response.response_status, 200);
+  t.is(response.headers, JSON.stringify([["Content-Type", "image/gif"]]));
+  t.is(response.content_hash, undefined);
+  instrument.cleanup();
+});
+
+test.serial("only instruments requests matching the config", async t => {
+  const instrument = new HttpInstrument(dataReceiver, {
+    urls: ["*://example.com/*"],
+    excludedResourceTypes: ["image"],
+  });
+  instrument.run(1);
+  await fakeBrowser.replay([
+    ...requestEvents({ requestId: "1", url: "https://other.test/" }),
+    ...requestEvents({
+      requestId: "2",
+      url: "https://example.com/a.png",
+      type: "image",
+    }),
+    ...requestEvents({
+      requestId: "3",
+      url: "https://example.com/",
+      originUrl: "moz-extension://1234/background.html",
+    }),
+    ...requestEvents({ requestId: "4", url: "https://example.com/" }),
+  ]);
+  t.deepEqual(
+    dataReceiver.getRecords("http_requests").map(request => request.request_id),
+    ["4"],
+  );
+  instrument.cleanup();
+});
+
+test.serial("parses POST bodies", async t => {
+  const instrument = new HttpInstrument(dataReceiver);
+  instrument.run(1);
+  await fakeBrowser.replay(
+    requestEvents({
+      requestId: "1",
+      url: "https://example.com/submit",
+      method: "POST",
+      type: "xmlhttprequest",
+      requestHeaders: [
+        { name: "Content-Type", value: "application/x-www-form-urlencoded" },
+      ],
+      requestBody: { raw: [{ bytes: new TextEncoder().encode("q=1").buffer }] },
+    }),
+  );
+  const [request] = dataReceiver.getRecords("http_requests");
+  t.is(request.post_body, JSON.stringify({ q: "1" }));
+  t.is(request.is_XHR, 1);
+  instrument.cleanup();
+});
+
+test.serial("saves complete response bodies", async t => {
+  const instrument = new HttpInstrument(dataReceiver, {
+    saveContent: ["script"],
+    maxContentSize: 4,
+  });
+  instrument.run(1);
+  await fakeBrowser.replay(
+    requestEvents({
+      requestId: "1",
+      url: "https://example.com/app.js",
+      type: "script",
+      responseBody: ["abc", "def"],
+    }),
+  );
+
+  const [response] = dataReceiver.getRecords("http_responses");
+  // SHA256 of "abcdef"
+  t.is(
+    response.content_hash,
+    "bef57ec7f53a6d40beb640a780a639c83bc29ac8a9816f1fc6c5c6dcd93c4721",
+  );
+  t.is(response.content_size, 6);
+  t.is(response.content_truncated, 1);
+  t.is(response.content_encoding, "utf-8");
+  t.is(dataReceiver.contents[response.content_hash], "abcd");
+  // The page still receives the complete body
+  t.is(fakeBrowser.streamFilters["1"].written.length, 2);
+  t.true(fakeBrowser.streamFilters["1"].disconnected);
+  instrument.cleanup();
+});
+
+test.serial("saves binary response bodies base64-encoded", async t => {
+  const instrument = new HttpInstrument(dataReceiver, { saveContent: true });
+  instrument.run(1);
+  await fakeBrowser.replay(
+    requestEvents({
+      requestId: "1",
+      url: "https://example.com/logo.png",
+      type: "image",
+      responseHeaders: [{ name: "Content-Type", value: "image/png" }],
+      responseBody: [new Uint8Array([0x89, 0x50, 0x4e, 0x47])],
+    }),
+  );
+
+  const [response] = dataReceiver.getRecords("http_responses");
+  t.is(response.content_mime_type, "image/png");
+  t.is(response.content_encoding, "base64");
+  t.is(dataReceiver.contents[response.content_hash], "iVBORw==");
+  instrument.cleanup();
+});
+
+test.serial("links redirects to the redirected request", async t => {
+  const instrument = new HttpInstrument(dataReceiver);
+  instrument.run(1);
+  const details = requestDetails({
+    requestId: "1",
+    url: "http://example.com/",
+  });
+  await fakeBrowser.replay([
+    { dispatch: "webRequest.onBeforeRequest", args: [details] },
+    {
+      dispatch: "webRequest.onBeforeRedirect",
+      args: [
+        {
+          ...details,
+          redirectUrl: "https://example.com/",
+          statusCode: 301,
+          statusLine: "HTTP/1.1 301 Moved Permanently",
+          responseHeaders: [
+            { name: "Location", value: "https://example.com/" },
+          ],
+        },
+      ],
+    },
+    ...requestEvents({ requestId: "1", url: "https://example.com/" }),
+  ]);
+
+  const [redirect] = dataReceiver.getRecords("http_redirects");
+  t.is(redirect.old_request_id, "1");
+  t.is(redirect.new_request_id, "1");
+  t.is(redirect.old_request_url, "http://example.com/");
+  t.is(redirect.new_request_url, "https://example.com/");
+  t.is(redirect.response_status, 301);
+  t.is(dataReceiver.getRecords("http_requests").length, 1);
+  t.is(dataReceiver.getRecords("http_responses").length, 1);
+  instrument.cleanup();
+});
+
+test.serial("keeps concurrent redirects to the same url apart", async t => {
+  const instrument = new HttpInstrument(dataReceiver);
+  instrument.run(1);
+  const redirect = (requestId: string, url: string): ScriptedEvent[] => {
+    const details = requestDetails({ requestId, url, type: "image" });
+    return [
+      { dispatch: "webRequest.onBeforeRequest", args: [details] },
+      {
+        dispatch: "webRequest.onBeforeRedirect",
+        args: [
+          {
+            ...details,
+            redirectUrl: "https://tracker.test/sync",
+            statusCode: 302,
+            statusLine: "HTTP/1.1 302 Found",
+          },
+        ],
+      },
+    ];
+  };
+  const redirected = (requestId: string) =>
+    requestEvents({
+      requestId,
+      url: "https://tracker.test/sync",
+      type: "image",
+    });
+  await fakeBrowser.replay([
+    ...redirect("1", "https://ads.test/a"),
+    ...redirect("2", "https://ads.test/b"),
+    // An unrelated request to the same url
+    ...redirected("3"),
+    ...redirected("2"),
+    ...redirected("1"),
+  ]);
+
+  t.deepEqual(
+    dataReceiver
+      .getRecords("http_redirects")
+      .map(record => [record.old_request_url, record.new_request_id]),
+    [["https://ads.test/b", "2"], ["https://ads.test/a", "1"]],
+  );
+  instrument.cleanup();
+});
+
+test.serial("saves pending redirects on cleanup", async t => {
+  const instrument = new HttpInstrument(dataReceiver);
+  instrument.run(1);
+  const details = requestDetails({
+    requestId: "1",
+    url: "http://example.com/",
+  });
+  await fakeBrowser.replay([
+    { dispatch: "webRequest.onBeforeRequest", args: [details] },
+    {
+      dispatch: "webRequest.onBeforeRedirect",
+      args: [
+        {
+          ...details,
+          redirectUrl: "https://example.com/",
+          statusCode: 302,
+          statusLine: "HTTP/1.1 302 Found",
+        },
+      ],
+    },
+  ]);
+  t.deepEqual(dataReceiver.getRecords("http_redirects"), []);
+
+  instrument.cleanup();
+  const [redirect, ...others] = dataReceiver.getRecords("http_redirects");
+  t.deepEqual(others, []);
+  t.is(redirect.old_request_id, "1");
+  t.is(redirect.new_request_id, null);
+});
+
+test.serial("records the timing of each request", async t => {
+  const instrument = new HttpInstrument(dataReceiver, { recordTimings: true });
+  instrument.run(1);
+  const details = requestDetails({
+    requestId: "1",
+    url: "https://cdn.example.com/app.js",
+    type: "script",
+  });
+  const at = (ms: number) => ({
+    ...details,
+    timeStamp: details.timeStamp + ms,
+  });
+  await fakeBrowser.replay([
+    { dispatch: "webRequest.onBeforeRequest", args: [at(0)] },
+    {
+      dispatch: "webRequest.onBeforeSendHeaders",
+      args: [{ ...at(1), requestHeaders: [] }],
+    },
+    { dispatch: "webRequest.onSendHeaders", args: [at(2)] },
+    { dispatch: "webRequest.onHeadersReceived", args: [at(120)] },
+    {
+      dispatch: "webRequest.onCompleted",
+      args: [
+        {
+          ...at(250),
+          fromCache: false,
+          ip: "203.0.113.7",
+          statusCode: 200,
+          statusLine: "HTTP/1.1 200 OK",
+        },
+      ],
+    },
+  ]);
+
+  const [timing] = dataReceiver.getRecords("http_timings");
+  t.is(timing.request_id, "1");
+  t.is(timing.url, "https://cdn.example.com/app.js");
+  t.is(timing.resource_type, "script");
+  t.is(timing.is_cached, 0);
+  t.is(timing.server_ip, "203.0.113.7");
+  t.is(timing.request_start, "2018-01-01T00:00:00.000Z");
+  t.is(timing.headers_sent, "2018-01-01T00:00:00.002Z");
+  t.is(timing.headers_received, "2018-01-01T00:00:00.120Z");
+  t.is(timing.response_end, "2018-01-01T00:00:00.250Z");
+  const [response] = dataReceiver.getRecords("http_responses");
+  t.is(response.server_ip, "203.0.113.7");
+  instrument.cleanup();
+  t.false(fakeBrowser.webRequest.onSendHeaders.hasListeners());
+  t.false(fakeBrowser.webRequest.onHeadersReceived.hasListeners());
+});
+
+test.serial(
+  "leaves out the phases of cached responses that did not happen",
+  async t => {
+    const instrument = new HttpInstrument(dataReceiver, {
+      recordTimings: true,
+    });
+    instrument.run(1);
+    await fakeBrowser.replay(
+      requestEvents({
+        requestId: "1",
+        url: "https://example.com/logo.png",
+        type: "image",
+        fromCache: true,
+      }),
+    );
+
+    const [timing] = dataReceiver.getRecords("http_timings");
+    t.is(timing.is_cached, 1);
+    t.is(timing.request_start, "2018-01-01T00:00:00.000Z");
+    t.is(timing.headers_sent, undefined);
+    t.is(timing.server_ip, undefined);
+    t.is(timing.response_end, "2018-01-01T00:00:00.000Z");
+    instrument.cleanup();
+  },
+);
+
+test.serial(
+  "records the security info of the first request to each host",
+  async t => {
+    const instrument = new HttpInstrument(dataReceiver, {
+      recordSecurityInfo: true,
+    });
+    instrument.run(1);
+    const certificate = (name: string, issuer: string, sha256: string) => ({
+      subject: "CN=" + name,
+      issuer: "CN=" + issuer,
+      validity: { start: Date.UTC(2017, 0, 1), end: Date.UTC(2019, 0, 1) },
+      fingerprint: { sha1: "", sha256 },
+      serialNumber: "01",
+      isBuiltInRoot: false,
+      subjectPublicKeyInfoDigest: { sha256: "" },
+    });
+    const securityInfo: browser.webRequest.SecurityInfo = {
+      state: "secure",
+      protocolVersion: "TLSv1.3",
+      cipherSuite: "TLS_AES_128_GCM_SHA256",
+      keaGroupName: "x25519",
+      signatureSchemeName: "ECDSA-P256-SHA256",
+      certificates: [
+        certificate("example.com", "Example CA", "AA:01"),
+        certificate("Example CA", "Example Root", "AA:02"),
+      ],
+      hsts: true,
+      certificateTransparencyStatus: "policy_compliant",
+    };
+    fakeBrowser.securityInfos["1"] = securityInfo;
+    fakeBrowser.securityInfos["2"] = securityInfo;
+    fakeBrowser.securityInfos["5"] = securityInfo;
+    const events = (request: FakeRequest): ScriptedEvent[] => {
+      const requestAndResponse = requestEvents(request);
+      // Received before the response completes
+      requestAndResponse.splice(requestAndResponse.length - 1, 0, {
+        dispatch: "webRequest.onHeadersReceived",
+        args: [
+          {
+            ...requestDetails(request),
+            statusCode: 200,
+            statusLine: "HTTP/1.1 200 OK",
+          },
+        ],
+      });
+      return requestAndResponse;
+    };
+    await fakeBrowser.replay([
+      ...events({ requestId: "1", url: "https://example.com/" }),
+      ...events({ requestId: "2", url: "https://example.com/app.js" }),
+      ...events({ requestId: "3", url: "http://example.com/" }),
+      // Hosts are tried again until their security info is saved
+      ...events({ requestId: "4", url: "https://tracker.test/" }),
+      ...events({ requestId: "5", url: "https://tracker.test/pixel.gif" }),
+    ]);
+
+    const [tlsInfo, retried, ...others] = dataReceiver.getRecords("tls_info");
+    t.deepEqual(others, []);
+    t.is(retried.request_id, "5");
+    t.is(retried.host, "tracker.test");
+    t.is(tlsInfo.request_id, "1");
+    t.is(tlsInfo.host, "example.com");
+    t.is(tlsInfo.state, "secure");
+    t.is(tlsInfo.protocol_version, "TLSv1.3");
+    t.is(tlsInfo.cipher_suite, "TLS_AES_128_GCM_SHA256");
+    t.is(tlsInfo.key_exchange_group, "x25519");
+    t.is(tlsInfo.signature_scheme, "ECDSA-P256-SHA256");
+    t.is(tlsInfo.certificate_fingerprints, JSON.stringify(["AA:01", "AA:02"]));
+    t.is(tlsInfo.certificate_subject, "CN=example.com");
+    t.is(tlsInfo.certificate_issuer, "CN=Example CA");
+    t.is(tlsInfo.certificate_valid_from, "2017-01-01T00:00:00.000Z");
+    t.is(tlsInfo.certificate_valid_until, "2019-01-01T00:00:00.000Z");
+    t.is(tlsInfo.is_hsts, 1);
+    t.is(tlsInfo.certificate_transparency_status, "policy_compliant");
+    t.is(tlsInfo.error_message, undefined);
+    t.is(dataReceiver.getRecords("http_responses").length, 5);
+    instrument.cleanup();
+    t.false(fakeBrowser.webRequest.onHeadersReceived.hasListeners());
+  },
+);
+
+const callStackMessage = (url: string, callStack: string): ScriptedEvent => ({
+  dispatch: "runtime.onMessage",
+  args: [
+    {
+      namespace: "javascript-instrumentation",
+      type: "logRequestCallStack",
+      data: {
+        url,
+        callStack,
+        timeStamp: new Date(Date.UTC(2018, 0, 1)).toISOString(),
+      },
+    },
+    { tab: { id: 1 }, frameId: 0, url: "https://example.com/" },
+  ],
+});
+
+test.serial(
+  "correlates requests with the call stacks of the scripts initiating them",
+  async t => {
+    const instrument = new HttpInstrument(dataReceiver, {
+      recordCallStacks: true,
+    });
+    instrument.run(1);
+    const [beforeRequest, beforeSendHeaders, completed] = requestEvents({
+      requestId: "2",
+      url: "https://tracker.test/xhr",
+      type: "xmlhttprequest",
+    });
+    await fakeBrowser.replay([
+      // The call stack usually arrives before the request
+      callStackMessage("https://tracker.test/pixel.gif#x", "track@app.js:1:1"),
+      ...requestEvents({
+        requestId: "1",
+        url: "https://tracker.test/pixel.gif",
+        type: "image",
+      }),
+      // ... but may also arrive shortly after it
+      beforeRequest,
+      beforeSendHeaders,
+      callStackMessage("https://tracker.test/xhr", "send@app.js:2:1"),
+      completed,
+    ]);
+
+    t.deepEqual(
+      dataReceiver
+        .getRecords("http_requests")
+        .map(request => [request.request_id, request.req_call_stack]),
+      [["1", "track@app.js:1:1"], ["2", "send@app.js:2:1"]],
+    );
+    instrument.cleanup();
+  },
+);
+
+const recordingCallStacksMessage: ScriptedEvent = {
+  dispatch: "runtime.onMessage",
+  args: [
+    {
+      namespace: "javascript-instrumentation",
+      type: "recordingRequestCallStacks",
+      data: { timeStamp: new Date(Date.UTC(2018, 0, 1)).toISOString() },
+    },
+    { tab: { id: 1 }, frameId: 0, url: "https://example.com/" },
+  ],
+};
+
+test.serial(
+  "saves requests without a call stack once waiting for it times out",
+  async t => {
+    const instrument = new HttpInstrument(dataReceiver, {
+      recordCallStacks: true,
+      callStackTimeout: 100,
+    });
+    instrument.run(1);
+    await fakeBrowser.replay([
+      recordingCallStacksMessage,
+      ...requestEvents({
+        requestId: "1",
+        url: "https://tracker.test/lib.js",
+        type: "script",
+      }),
+    ]);
+    t.is(dataReceiver.getRecords("http_requests").length, 0);
+
+    await settle(150);
+    const [request] = dataReceiver.getRecords("http_requests");
+    t.is(request.request_id, "1");
+    t.is(request.req_call_stack, undefined);
+    instrument.cleanup();
+  },
+);
+
+test.serial(
+  "does not wait for call stacks of frames without the page script",
+  async t => {
+    const instrument = new HttpInstrument(dataReceiver, {
+      recordCallStacks: true,
+    });
+    instrument.run(1);
+    fakeBrowser.openTab({ id: 2, url: "https://example.org/" });
+    await fakeBrowser.replay([
+      recordingCallStacksMessage,
+      // Made in a tab that the page script is not injected into
+      ...requestEvents({
+        requestId: "1",
+        url: "https://tracker.test/lib.js",
+        type: "script",
+        tabId: 2,
+      }),
+      // Made in a frame that the page script is not injected into
+      ...requestEvents({
+        requestId: "2",
+        url: "https://tracker.test/pixel.gif",
+        type: "image",
+        frameId: 4,
+        parentFrameId: 0,
+      }),
+    ]);
+
+    t.deepEqual(
+      dataReceiver
+        .getRecords("http_requests")
+        .map(request => [request.request_id, request.req_call_stack]),
+      [["1", undefined], ["2", undefined]],
+    );
+    instrument.cleanup();
+  },
+);
+
+test.serial("records failed requests", async t => {
+  const instrument = new HttpInstrument(dataReceiver, { saveContent: true });
+  instrument.run(1);
+  const request = {
+    requestId: "1",
+    url: "https://tracker.test/beacon",
+    method: "POST",
+    type: "beacon" as browser.webRequest.ResourceType,
+  };
+  await fakeBrowser.replay([
+    // onBeforeRequest and onBeforeSendHeaders
+    ...requestEvents(request).slice(0, 2),
+    {
+      dispatch: "webRequest.onErrorOccurred",
+      args: [
+        {
+          ...requestDetails(request),
+          error: "NS_ERROR_ABORT",
+          fromCache: false,
+        },
+      ],
+    },
+  ]);
+
+  t.is(dataReceiver.getRecords("http_requests").length, 1);
+  t.deepEqual(dataReceiver.getRecords("http_responses"), []);
+  const [error] = dataReceiver.getRecords("http_errors");
+  t.is(error.crawl_id, 1);
+  t.is(error.request_id, "1");
+  t.is(error.url, "https://tracker.test/beacon");
+  t.is(error.method, "POST");
+  t.is(error.resource_type, "beacon");
+  t.is(error.is_cached, 0);
+  t.is(error.error, "NS_ERROR_ABORT");
+  t.is(error.time_stamp, "2018-01-01T00:00:00.000Z");
+  t.is(error.content_hash, undefined);
+  t.deepEqual(dataReceiver.errors, []);
+  instrument.cleanup();
+});
+
+test.serial(
+  "saves the part of the response body that arrived before an error",
+  async t => {
+    const instrument = new HttpInstrument(dataReceiver, { saveContent: true });
+    instrument.run(1);
+    const details = requestDetails({
+      requestId: "1",
+      url: "https://example.com/video.mp4",
+      type: "media",
+    });
+    await fakeBrowser.replay([
+      { dispatch: "webRequest.onBeforeRequest", args: [details] },
+      { responseData: "1", data: "abc" },
+      {
+        dispatch: "webRequest.onErrorOccurred",
+        args: [{ ...details, error: "NS_BINDING_ABORTED", fromCache: false }],
+      },
+    ]);
+
+    const [error] = dataReceiver.getRecords("http_errors");
+    // SHA256 of "abc"
+    t.is(
+      error.content_hash,
+      "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+    );
+    t.is(error.content_size, 3);
+    t.is(error.content_truncated, 1);
+    t.is(dataReceiver.contents[error.content_hash], "abc");
+    t.deepEqual(dataReceiver.errors, []);
+    instrument.cleanup();
+  },
+);
+
+test.serial(
+  "records errors of requests whose stream filter failed",
+  async t => {
+    const instrument = new HttpInstrument(dataReceiver, { saveContent: true });
+    instrument.run(1);
+    const details = requestDetails({
+      requestId: "1",
+      url: "https://example.com/",
+    });
+    await fakeBrowser.replay([
+      { dispatch: "webRequest.onBeforeRequest", args: [details] },
+      { responseError: "1", error: "Channel redirected" },
+      {
+        dispatch: "webRequest.onErrorOccurred",
+        args: [{ ...details, error: "NS_ERROR_NET_RESET", fromCache: false }],
+      },
+    ]);
+
+    const [error] = dataReceiver.getRecords("http_errors");
+    t.is(error.error, "NS_ERROR_NET_RESET");
+    t.is(error.content_hash, undefined);
+    t.deepEqual(dataReceiver.errors, []);
+    instrument.cleanup();
+  },
+);
+
+test.serial("forgets the oldest pending requests", async t => {
+  const instrument = new HttpInstrument(dataReceiver, {
+    saveContent: true,
+    maxPendingRequests: 1,
+  });
+  instrument.run(1);
+  const [first, second] = ["1", "2"].map(requestId =>
+    requestDetails({ requestId, url: "https://example.com/" + requestId }),
+  );
+  await fakeBrowser.replay([
+    { dispatch: "webRequest.onBeforeRequest", args: [first] },
+    { dispatch: "webRequest.onBeforeRequest", args: [second] },
+    { responseEnd: "1" },
+    {
+      dispatch: "webRequest.onCompleted",
+      args: [{ ...first, fromCache: false, statusCode: 200 }],
+    },
+  ]);
+
+  // The response body listener of the first request was evicted along with
+  // it, so the response is recorded without its body
+  const [response] = dataReceiver.getRecords("http_responses");
+  t.is(response.request_id, "1");
+  t.is(response.content_hash, undefined);
+  t.deepEqual(dataReceiver.contents, {});
+  t.deepEqual(dataReceiver.errors, []);
+  instrument.cleanup();
+});
+
+test.serial("removes its listeners on cleanup", t => {
+  const instrument = new HttpInstrument(dataReceiver);
+  instrument.run(1);
+  t.true(fakeBrowser.webRequest.onCompleted.hasListeners());
+  instrument.cleanup();
+  t.false(fakeBrowser.webRequest.onBeforeRequest.hasListeners());
+  t.false(fakeBrowser.webRequest.onBeforeSendHeaders.hasListeners());
+  t.false(fakeBrowser.webRequest.onBeforeRedirect.hasListeners());
+  t.false(fakeBrowser.webRequest.onCompleted.hasListeners());
+  t.false(fakeBrowser.webRequest.onErrorOccurred.hasListeners());
+});
@@ -1,73 +1,121 @@
+import { DataReceiver } from "../lib/data-receiver";
 import { HttpPostParser, ParsedPostRequest } from "../lib/http-post-parser";
+import {
+  HttpInstrumentConfig,
+  validateHttpInstrumentConfig,
+} from "../lib/instrument-config";
 import { PendingRequest } from "../lib/pending-request";
 import { PendingResponse } from "../lib/pending-response";
+import { RequestCallStacks } from "../lib/request-call-stacks";
+import { decodeResponseBody } from "../lib/response-body-decoder";
+import { ResponseBody } from "../lib/response-body-listener";
 import ResourceType = browser.webRequest.ResourceType;
 import RequestFilter = browser.webRequest.RequestFilter;
 import BlockingResponse = browser.webRequest.BlockingResponse;
 import { boolToInt, escapeString } from "../lib/string-utils";
-import { HttpRedirect, HttpRequest, HttpResponse } from "../schema";
+import { isThirdPartyUrl } from "../lib/third-party";
+import {
+  HttpError,
+  HttpRedirect,
+  HttpRequest,
+  HttpResponse,
+  HttpTiming,
+  TlsInfo,
+} from "../schema";
 import {
   WebRequestOnBeforeRedirectEventDetails,
   WebRequestOnBeforeRequestEventDetails,
   WebRequestOnBeforeSendHeadersEventDetails,
   WebRequestOnCompletedEventDetails,
+  WebRequestOnErrorOccurredEventDetails,
+  WebRequestOnHeadersReceivedEventDetails,
 } from "../types/browser-web-request-event-details";
+import {
+  getCurrentVisitId,
+  NavigationInstrument,
+} from "./navigation-instrument";
+
+/**
+ * Remember at most this many hosts whose security info was saved,
+ * forgetting the oldest ones first
+ */
+const maxSecurityInfoHosts = 10000;
+
+/**
+ * Remember at most this many frames that the page script records call
+ * stacks in, forgetting the oldest ones first
+ */
+const maxCallStackFrames = 10000;
 
 /**
  * Note: Different parts of the desired information arrives in different events as per below:
  * request = headers in onBeforeSendHeaders + body in onBeforeRequest
  * response = headers in onCompleted + body via a onBeforeRequest filter
  * redirect = original request headers+body, followed by a onBeforeRedirect and then a new set of request headers+body and response headers+body
+ * error = request headers+body, followed by an onErrorOccurred instead of onCompleted
  * Docs: https://developer.mozilla.org/en-US/docs/User:wbamberg/webRequest.RequestDetails
  */
 
 export class HttpInstrument {
-  private readonly dataReceiver;
-  private pendingRequests: {
-    [requestId: number]: PendingRequest;
-  } = {};
-  private pendingResponses: {
-    [requestId: number]: PendingResponse;
+  private readonly dataReceiver: DataReceiver;
+  private readonly config: HttpInstrumentConfig;
+  private readonly navigationInstrument: NavigationInstrument;
+  // Entries are removed once their request completes or fails. Map iterates
+  // in insertion order, so the oldest entries are evicted first when there
+  // are more than maxPendingRequests of them.
+  private readonly pendingRequests = new Map<string, PendingRequest>();
+  private readonly pendingResponses = new Map<string, PendingResponse>();
+  private readonly pendingTimings = new Map<string, HttpTiming>();
+  // The security info of a host is only saved for the first request to it
+  private readonly securityInfoHosts = new Map<string, true>();
+  private pendingRedirects: {
+    [requestId: string]: {
+      details: WebRequestOnBeforeRedirectEventDetails;
+      httpRedirect: HttpRedirect;
+      timeout;
+    };
   } = {};
+  private readonly requestCallStacks = new RequestCallStacks();
+  // Frames ("<tabId> <frameId>") that the page script records call stacks in
+  private readonly callStackFrames = new Map<string, true>();
   private onBeforeRequestListener;
   private onBeforeSendHeadersListener;
+  private onSendHeadersListener;
+  private onHeadersReceivedListener;
   private onBeforeRedirectListener;
   private onCompletedListener;
+  private onErrorOccurredListener;
+  private onMessageListener;
 
-  constructor(dataReceiver) {
+  constructor(
+    dataReceiver: DataReceiver,
+    config: HttpInstrumentConfig = {},
+    navigationInstrument?: NavigationInstrument,
+  ) {
     this.dataReceiver = dataReceiver;
+    this.config = validateHttpInstrumentConfig(config);
+    this.navigationInstrument = navigationInstrument;
   }
 
-  public run(crawlID, saveJavascript, saveAllContent) {
-    const allTypes: ResourceType[] = [
-      "beacon",
-      "csp_report",
-      "font",
-      "image",
-      "imageset",
-      "main_frame",
-      "media",
-      "object",
-      "object_subrequest",
-      "ping",
-      "script",
-      // "speculative",
-      "stylesheet",
-      "sub_frame",
-      "web_manifest",
-      "websocket",
-      "xbl",
-      "xml_dtd",
-      "xmlhttprequest",
-      "xslt",
-      "other",
-    ];
-
-    const filter: RequestFilter = { urls: ["<all_urls>"], types: allTypes };
+  public run(crawlID) {
+    this.securityInfoHosts.clear();
+    this.callStackFrames.clear();
+    const filter: RequestFilter = {
+      urls: this.config.urls,
+      types: this.config.resourceTypes,
+    };
+    if (this.config.tabId !== undefined) {
+      filter.tabId = this.config.tabId;
+    }
+    if (this.config.windowId !== undefined) {
+      filter.windowId = this.config.windowId;
+    }
 
     const requestStemsFromExtension = details => {
       return (
-        details.originUrl && details.originUrl.indexOf("moz-extension://") > -1
+        this.config.excludeExtensionOrigins &&
+        details.originUrl &&
+        details.originUrl.indexOf("moz-extension://") > -1
       );
     };
 
@@ -81,21 +129,28 @@ export class HttpInstrument {
       if (requestStemsFromExtension(details)) {
         return blockingResponseThatDoesNothing;
       }
+      this.linkPendingRedirect(details);
       const pendingRequest = this.getPendingRequest(details.requestId);
       pendingRequest.resolveBeforeRequestEventDetails(details);
       const pendingResponse = this.getPendingResponse(details.requestId);
       pendingResponse.resolveBeforeRequestEventDetails(details);
-      if (saveAllContent) {
-        pendingResponse.addResponseResponseBodyListener(details);
-      } else if (saveJavascript && this.isJS(details.type)) {
-        pendingResponse.addResponseResponseBodyListener(details);
+      if (this.config.recordTimings) {
+        this.getPendingTiming(details.requestId).request_start = new Date(
+          details.timeStamp,
+        ).toISOString();
+      }
+      if (this.shouldSaveContent(details.type)) {
+        pendingResponse.addResponseResponseBodyListener(
+          details,
+          this.config.maxContentSize,
+        );
       }
       return blockingResponseThatDoesNothing;
     };
     browser.webRequest.onBeforeRequest.addListener(
       this.onBeforeRequestListener,
       filter,
-      saveJavascript || saveAllContent
+      this.config.saveContent !== false
         ? ["requestBody", "blocking"]
         : ["requestBody"],
     );
@@ -107,7 +162,14 @@ export class HttpInstrument {
       }
       const pendingRequest = this.getPendingRequest(details.requestId);
       pendingRequest.resolveOnBeforeSendHeadersEventDetails(details);
-      this.onBeforeSendHeadersHandler(details, crawlID);
+      // Visits are looked up as the events arrive, as the tab may have
+      // navigated by the time the (asynchronous) handlers save the records
+      this.onBeforeSendHeadersHandler(
+        details,
+        crawlID,
+        getCurrentVisitId(this.navigationInstrument, details.tabId),
+        pendingRequest,
+      );
     };
     browser.webRequest.onBeforeSendHeaders.addListener(
       this.onBeforeSendHeadersListener,
@@ -115,12 +177,67 @@ export class HttpInstrument {
       ["requestHeaders"],
     );
 
+    if (this.config.recordTimings) {
+      this.onSendHeadersListener = details => {
+        // Ignore requests made by extensions
+        if (requestStemsFromExtension(details)) {
+          return;
+        }
+        this.getPendingTiming(details.requestId).headers_sent = new Date(
+          details.timeStamp,
+        ).toISOString();
+      };
+      browser.webRequest.onSendHeaders.addListener(
+        this.onSendHeadersListener,
+        filter,
+      );
+    }
+
+    if (this.config.recordTimings || this.config.recordSecurityInfo) {
+      this.onHeadersReceivedListener = (
+        details: WebRequestOnHeadersReceivedEventDetails,
+      ) => {
+        const blockingResponseThatDoesNothing: BlockingResponse = {};
+        // Ignore requests made by extensions
+        if (requestStemsFromExtension(details)) {
+          return blockingResponseThatDoesNothing;
+        }
+        if (this.config.recordTimings) {
+          this.getPendingTiming(details.requestId).headers_received = new Date(
+            details.timeStamp,
+          ).toISOString();
+        }
+        if (
+          this.config.recordSecurityInfo &&
+          this.shouldSaveSecurityInfo(details.url)
+        ) {
+          // The security info is only available while the listener blocks
+          // the request
+          return this.saveSecurityInfo(
+            details,
+            crawlID,
+            getCurrentVisitId(this.navigationInstrument, details.tabId),
+          ).then(() => blockingResponseThatDoesNothing);
+        }
+        return blockingResponseThatDoesNothing;
+      };
+      browser.webRequest.onHeadersReceived.addListener(
+        this.onHeadersReceivedListener,
+        filter,
+        this.config.recordSecurityInfo ? ["blocking"] : [],
+      );
+    }
+
     this.onBeforeRedirectListener = details => {
       // Ignore requests made by extensions
       if (requestStemsFromExtension(details)) {
         return;
       }
-      this.onBeforeRedirectHandler(details, crawlID);
+      this.onBeforeRedirectHandler(
+        details,
+        crawlID,
+        getCurrentVisitId(this.navigationInstrument, details.tabId),
+      );
     };
     browser.webRequest.onBeforeRedirect.addListener(
       this.onBeforeRedirectListener,
@@ -133,15 +250,70 @@ export class HttpInstrument {
       if (requestStemsFromExtension(details)) {
         return;
       }
+      const visitId = getCurrentVisitId(
+        this.navigationInstrument,
+        details.tabId,
+      );
       const pendingResponse = this.getPendingResponse(details.requestId);
       pendingResponse.resolveOnCompletedEventDetails(details);
-      this.onCompletedHandler(details, crawlID, saveJavascript, saveAllContent);
+      if (this.config.recordTimings) {
+        this.saveTiming(details, crawlID, visitId);
+      }
+      this.forgetPendingRequest(details.requestId);
+      this.onCompletedHandler(details, crawlID, visitId, pendingResponse);
     };
     browser.webRequest.onCompleted.addListener(
       this.onCompletedListener,
       filter,
       ["responseHeaders"],
     );
+
+    this.onErrorOccurredListener = details => {
+      // Ignore requests made by extensions
+      if (requestStemsFromExtension(details)) {
+        return;
+      }
+      const pendingResponse = this.pendingResponses.get(details.requestId);
+      this.forgetPendingRequest(details.requestId);
+      this.onErrorOccurredHandler(
+        details,
+        crawlID,
+        getCurrentVisitId(this.navigationInstrument, details.tabId),
+        pendingResponse,
+      );
+    };
+    browser.webRequest.onErrorOccurred.addListener(
+      this.onErrorOccurredListener,
+      filter,
+    );
+
+    if (this.config.recordCallStacks) {
+      // Listen for call stacks recorded by the injected page script
+      this.onMessageListener = (msg, sender) => {
+        if (
+          !msg.namespace ||
+          msg.namespace !== "javascript-instrumentation" ||
+          !sender.tab
+        ) {
+          return;
+        }
+        if (
+          msg.type === "recordingRequestCallStacks" ||
+          msg.type === "logRequestCallStack"
+        ) {
+          this.addCallStackFrame(sender.tab.id, sender.frameId);
+        }
+        if (msg.type === "logRequestCallStack") {
+          this.requestCallStacks.add(
+            sender.tab.id,
+            msg.data.url,
+            msg.data.callStack,
+            new Date(msg.data.timeStamp).getTime(),
+          );
+        }
+      };
+      browser.runtime.onMessage.addListener(this.onMessageListener);
+    }
   }
 
   public cleanup() {
@@ -155,6 +327,16 @@ export class HttpInstrument {
         this.onBeforeSendHeadersListener,
       );
     }
+    if (this.onSendHeadersListener) {
+      browser.webRequest.onSendHeaders.removeListener(
+        this.onSendHeadersListener,
+      );
+    }
+    if (this.onHeadersReceivedListener) {
+      browser.webRequest.onHeadersReceived.removeListener(
+        this.onHeadersReceivedListener,
+      );
+    }
     if (this.onBeforeRedirectListener) {
       browser.webRequest.onBeforeRedirect.removeListener(
         this.onBeforeRedirectListener,
@@ -163,65 +345,102 @@ export class HttpInstrument {
     if (this.onCompletedListener) {
       browser.webRequest.onCompleted.removeListener(this.onCompletedListener);
     }
+    if (this.onErrorOccurredListener) {
+      browser.webRequest.onErrorOccurred.removeListener(
+        this.onErrorOccurredListener,
+      );
+    }
+    if (this.onMessageListener) {
+      browser.runtime.onMessage.removeListener(this.onMessageListener);
+    }
+    // The redirected requests will not be seen anymore, so the redirects
+    // are saved right away rather than once their timers fire
+    Object.keys(this.pendingRedirects).forEach(requestId =>
+      this.savePendingRedirect(requestId),
+    );
+  }
+
+  private getPendingRequest(requestId: string) {
+    if (!this.pendingRequests.has(requestId)) {
+      this.pendingRequests.set(requestId, new PendingRequest());
+      this.evictOldestEntry(this.pendingRequests);
+    }
+    return this.pendingRequests.get(requestId);
+  }
+
+  private getPendingResponse(requestId: string) {
+    if (!this.pendingResponses.has(requestId)) {
+      this.pendingResponses.set(requestId, new PendingResponse());
+      this.evictOldestEntry(this.pendingResponses);
+    }
+    return this.pendingResponses.get(requestId);
   }
 
-  private getPendingRequest(requestId) {
-    if (!this.pendingRequests[requestId]) {
-      this.pendingRequests[requestId] = new PendingRequest();
+  private getPendingTiming(requestId: string) {
+    if (!this.pendingTimings.has(requestId)) {
+      this.pendingTimings.set(requestId, {} as HttpTiming);
+      this.evictOldestEntry(this.pendingTimings);
     }
-    return this.pendingRequests[requestId];
+    return this.pendingTimings.get(requestId);
   }
 
-  private getPendingResponse(requestId) {
-    if (!this.pendingResponses[requestId]) {
-      this.pendingResponses[requestId] = new PendingResponse();
+  private evictOldestEntry(pending: Map<string, any>) {
+    if (pending.size > this.config.maxPendingRequests) {
+      pending.delete(pending.keys().next().value);
     }
-    return this.pendingResponses[requestId];
+  }
+
+  /**
+   * Called once no more events will arrive for a request, or for this hop
+   * of a redirected request. Handlers that are still running hold on to the
+   * pending request and response they need.
+   *
+   * @param requestId
+   */
+  private forgetPendingRequest(requestId: string) {
+    this.pendingRequests.delete(requestId);
+    this.pendingResponses.delete(requestId);
+    this.pendingTimings.delete(requestId);
   }
 
   /*
    * HTTP Request Handler and Helper Functions
    */
 
-  /*
-  // TODO: Refactor to corresponding webext logic or discard
-  private get_stack_trace_str() {
-    // return the stack trace as a string
-    // TODO: check if http-on-modify-request is a good place to capture the stack
-    // In the manual tests we could capture exactly the same trace as the
-    // "Cause" column of the devtools network panel.
-    const stacktrace = [];
-    let frame = components.stack;
-    if (frame && frame.caller) {
-      // internal/chrome callers occupy the first three frames, pop them!
-      frame = frame.caller.caller.caller;
-      while (frame) {
-        // chrome scripts appear as callers in some cases, filter them out
-        const scheme = frame.filename.split("://")[0];
-        if (["resource", "chrome", "file"].indexOf(scheme) === -1) {
-          // ignore chrome scripts
-          stacktrace.push(
-            frame.name +
-              "@" +
-              frame.filename +
-              ":" +
-              frame.lineNumber +
-              ":" +
-              frame.columnNumber +
-              ";" +
-              frame.asyncCause,
-          );
-        }
-        frame = frame.caller || frame.asyncCaller;
-      }
+  /**
+   * Return true if this request may have been initiated by a script, in
+   * which case the page script records the call stack (see
+   * instrumentRequestCallStacks in the page script)
+   *
+   * @param resourceType
+   */
+  private mayBeInitiatedByScript(resourceType: ResourceType): boolean {
+    return ["xmlhttprequest", "beacon", "image", "script"].includes(
+      resourceType,
+    );
+  }
+
+  /**
+   * Remembers that the page script records the call stacks of the requests
+   * initiated in the frame
+   *
+   * @param tabId
+   * @param frameId
+   */
+  private addCallStackFrame(tabId: number, frameId: number) {
+    const frame = tabId + " " + frameId;
+    this.callStackFrames.delete(frame);
+    this.callStackFrames.set(frame, true);
+    if (this.callStackFrames.size > maxCallStackFrames) {
+      this.callStackFrames.delete(this.callStackFrames.keys().next().value);
     }
-    return stacktrace.join("\n");
   }
-  */
 
   private async onBeforeSendHeadersHandler(
     details: WebRequestOnBeforeSendHeadersEventDetails,
     crawlID,
+    visitId: number,
+    pendingRequest: PendingRequest,
   ) {
     /*
     console.log(
@@ -232,18 +451,18 @@ export class HttpInstrument {
     */
 
     // http_requests table schema:
-    // id [auto-filled], crawl_id, url, method, referrer,
-    // headers, visit_id [auto-filled], time_stamp
+    // id [auto-filled], crawl_id, visit_id, tab_id, frame_id, url, method,
+    // referrer, headers, time_stamp
     const update = {} as HttpRequest;
 
     update.crawl_id = crawlID;
+    update.visit_id = visitId;
+    update.tab_id = details.tabId;
+    update.frame_id = details.frameId;
 
     // requestId is a unique identifier that can be used to link requests and responses
     update.request_id = details.requestId;
 
-    // const stacktrace_str = get_stack_trace_str();
-    // update.req_call_stack = escapeString(stacktrace_str);
-
     const url = details.url;
     update.url = escapeString(url);
 
@@ -280,7 +499,6 @@ export class HttpInstrument {
     }
 
     if (requestMethod === "POST" && !isOcsp /* don't process OCSP requests */) {
-      const pendingRequest = this.getPendingRequest(details.requestId);
       const resolved = await pendingRequest.resolvedWithinTimeout(1000);
       if (!resolved) {
         this.dataReceiver.logError(
@@ -300,28 +518,14 @@ export class HttpInstrument {
             encodingType,
           );
 
-          // Add (POST) request headers from upload stream
-          if ("post_headers" in postObj) {
-            // Only store POST headers that we know and need. We may misinterpret POST data as headers
-            // as detection is based on "key:value" format (non-header POST data can be in this format as well)
-            const contentHeaders = [
-              "Content-Type",
-              "Content-Disposition",
-              "Content-Length",
-            ];
-            for (const name in postObj.post_headers) {
-              if (contentHeaders.includes(name)) {
-                const header_pair = [];
-                header_pair.push(escapeString(name));
-                header_pair.push(escapeString(postObj.post_headers[name]));
-                headers.push(header_pair);
-              }
-            }
-          }
           // we store POST body in JSON format, except when it's a string without a (key-value) structure
           if ("post_body" in postObj) {
             update.post_body = postObj.post_body;
           }
+          // binary POST bodies are stored base64-encoded
+          if ("post_body_raw" in postObj) {
+            update.post_body_raw = postObj.post_body_raw;
+          }
         }
       }
     }
@@ -364,49 +568,6 @@ export class HttpInstrument {
     // https://developer.mozilla.org/en-US/docs/Mozilla/Add-ons/WebExtensions/API/webRequest/ResourceType
     update.resource_type = details.type;
 
-    /*
-    // TODO: Refactor to corresponding webext logic or discard
-    const ThirdPartyUtil = Cc["@mozilla.org/thirdpartyutil;1"].getService(
-                           Ci.mozIThirdPartyUtil);
-    // Do third-party checks
-    // These specific checks are done because it's what's used in Tracking Protection
-    // See: http://searchfox.org/mozilla-central/source/netwerk/base/nsChannelClassifier.cpp#107
-    try {
-      const isThirdPartyChannel = ThirdPartyUtil.isThirdPartyChannel(details);
-      const topWindow = ThirdPartyUtil.getTopWindowForChannel(details);
-      const topURI = ThirdPartyUtil.getURIFromWindow(topWindow);
-      if (topURI) {
-        const topUrl = topURI.spec;
-        const channelURI = details.URI;
-        const isThirdPartyToTopWindow = ThirdPartyUtil.isThirdPartyURI(
-          channelURI,
-          topURI,
-        );
-        update.is_third_party_to_top_window = isThirdPartyToTopWindow;
-        update.is_third_party_channel = isThirdPartyChannel;
-      }
-    } catch (anError) {
-      // Exceptions expected for channels triggered or loading in a
-      // NullPrincipal or SystemPrincipal. They are also expected for favicon
-      // loads, which we attempt to filter. Depending on the naming, some favicons
-      // may continue to lead to error logs.
-      if (
-        update.triggering_origin !== "[System Principal]" &&
-        update.triggering_origin !== undefined &&
-        update.loading_origin !== "[System Principal]" &&
-        update.loading_origin !== undefined &&
-        !update.url.endsWith("ico")
-      ) {
-        this.dataReceiver.logError(
-          "Error while retrieving additional channel information for URL: " +
-          "\n" +
-          update.url +
-          "\n Error text:" +
-          JSON.stringify(anError),
-        );
-      }
-    }
-    */
     const tab = await browser.tabs.get(details.tabId);
     update.top_level_url = escapeString(tab.url);
     update.parent_frame_id = details.parentFrameId;
@@ -414,93 +575,162 @@ export class HttpInstrument {
       JSON.stringify(details.frameAncestors),
     );
 
+    // Do third-party checks by comparing the eTLD+1 of the request with the
+    // ones of the loading document and the top-level document.
+    // Loads of top-level documents are never third-party.
+    if (details.type === "main_frame") {
+      update.is_third_party_channel = boolToInt(false);
+      update.is_third_party_to_top_window = boolToInt(false);
+    } else {
+      const isThirdPartyChannel = isThirdPartyUrl(
+        details.url,
+        details.documentUrl,
+      );
+      if (isThirdPartyChannel !== undefined) {
+        update.is_third_party_channel = boolToInt(isThirdPartyChannel);
+      }
+      const isThirdPartyToTopWindow = isThirdPartyUrl(
+        details.url,
+        this.getTopLevelDocumentUrl(details, tab.url),
+      );
+      if (isThirdPartyToTopWindow !== undefined) {
+        update.is_third_party_to_top_window = boolToInt(
+          isThirdPartyToTopWindow,
+        );
+      }
+    }
+
+    // The call stack is recorded in the page script and may arrive shortly
+    // after the request, so we wait for it for a while. Requests of frames
+    // that the page script is not injected into have none to wait for.
+    if (
+      this.config.recordCallStacks &&
+      this.mayBeInitiatedByScript(details.type) &&
+      this.callStackFrames.has(details.tabId + " " + details.frameId)
+    ) {
+      const callStack = await this.requestCallStacks.get(
+        details.tabId,
+        details.url,
+        details.timeStamp,
+        this.config.callStackTimeout,
+      );
+      if (callStack) {
+        update.req_call_stack = escapeString(callStack);
+      }
+    }
+
     this.dataReceiver.saveRecord("http_requests", update);
   }
 
+  /**
+   * Returns the url of the top-level document that the request is made
+   * from. The frame ancestors are preferred over the tab url, since the
+   * latter may already have changed to the url of a pending navigation.
+   *
+   * @param details
+   * @param tabUrl
+   */
+  private getTopLevelDocumentUrl(
+    details: WebRequestOnBeforeSendHeadersEventDetails,
+    tabUrl: string,
+  ) {
+    if (details.frameAncestors && details.frameAncestors.length > 0) {
+      return details.frameAncestors[details.frameAncestors.length - 1].url;
+    }
+    if (details.frameId === 0 && details.documentUrl) {
+      return details.documentUrl;
+    }
+    return tabUrl;
+  }
+
   private onBeforeRedirectHandler(
     details: WebRequestOnBeforeRedirectEventDetails,
     crawlID,
+    visitId: number,
   ) {
-    /*
-    console.log(
-      "onBeforeRedirectHandler (previously httpRequestHandler)",
-      details,
-      crawlID,
-    );
-    */
-
     // Save HTTP redirect events
-    // Events are saved to the `http_redirects` table
-
-    /*
-    // TODO: Refactor to corresponding webext logic or discard
     // Events are saved to the `http_redirects` table, and map the old
-    // request/response channel id to the new request/response channel id.
-    // Implementation based on: https://stackoverflow.com/a/11240627
-    const oldNotifications = details.notificationCallbacks;
-    let oldEventSink = null;
-    details.notificationCallbacks = {
-      QueryInterface: XPCOMUtils.generateQI([
-        Ci.nsIInterfaceRequestor,
-        Ci.nsIChannelEventSink,
-      ]),
-
-      getInterface(iid) {
-        // We are only interested in nsIChannelEventSink,
-        // return the old callbacks for any other interface requests.
-        if (iid.equals(Ci.nsIChannelEventSink)) {
-          try {
-            oldEventSink = oldNotifications.QueryInterface(iid);
-          } catch (anError) {
-            this.dataReceiver.logError(
-              "Error during call to custom notificationCallbacks::getInterface." +
-                JSON.stringify(anError),
-            );
-          }
-          return this;
-        }
+    // request id to the request id of the redirected request. The latter
+    // is only known once the redirected request is seen, so the record is
+    // held back until then (see linkPendingRedirect below)
 
-        if (oldNotifications) {
-          return oldNotifications.getInterface(iid);
-        } else {
-          throw Cr.NS_ERROR_NO_INTERFACE;
-        }
-      },
-
-      asyncOnChannelRedirect(oldChannel, newChannel, flags, callback) {
-
-        newChannel.QueryInterface(Ci.nsIHttpChannel);
-
-        const httpRedirect: HttpRedirect = {
-          crawl_id: crawlID,
-          old_request_id: oldChannel.channelId,
-          new_request_id: newChannel.channelId,
-          time_stamp: new Date().toISOString(),
-        };
-        this.dataReceiver.saveRecord("http_redirects", httpRedirect);
-
-        if (oldEventSink) {
-          oldEventSink.asyncOnChannelRedirect(
-            oldChannel,
-            newChannel,
-            flags,
-            callback,
-          );
-        } else {
-          callback.onRedirectVerifyCallback(Cr.NS_OK);
-        }
-      },
-    };
-    */
+    const headers = [];
+    if (details.responseHeaders) {
+      details.responseHeaders.map(responseHeader => {
+        const { name, value } = responseHeader;
+        const header_pair = [];
+        header_pair.push(escapeString(name));
+        header_pair.push(escapeString(value));
+        headers.push(header_pair);
+      });
+    }
 
     const httpRedirect: HttpRedirect = {
       crawl_id: crawlID,
-      old_request_id: details.requestId, // previously: oldChannel.channelId,
-      new_request_id: null, // previously: newChannel.channelId, TODO: Refactor to corresponding webext logic or discard
+      visit_id: visitId,
+      tab_id: details.tabId,
+      frame_id: details.frameId,
+      old_request_url: escapeString(details.url),
+      old_request_id: details.requestId,
+      new_request_url: escapeString(details.redirectUrl),
+      new_request_id: null,
+      response_status: details.statusCode,
+      response_status_text: escapeString(details.statusLine),
+      headers: JSON.stringify(headers),
       time_stamp: new Date(details.timeStamp).toISOString(),
     };
 
-    this.dataReceiver.saveRecord("http_redirects", httpRedirect);
+    // Firefox re-uses the request id for the redirected request, so the
+    // pending request and response of this hop must not be picked up by it
+    this.forgetPendingRequest(details.requestId);
+
+    // Save the redirect without a new request id if the redirected request
+    // never shows up (eg it was blocked or stems from an extension)
+    this.savePendingRedirect(details.requestId);
+    const timeout = setTimeout(
+      () => this.savePendingRedirect(details.requestId),
+      1000,
+    );
+
+    this.pendingRedirects[details.requestId] = {
+      details,
+      httpRedirect,
+      timeout,
+    };
+  }
+
+  /**
+   * Saves the redirect that led to the given request, if any, now that
+   * the id of the redirected request is known
+   *
+   * @param details
+   */
+  private linkPendingRedirect(details: WebRequestOnBeforeRequestEventDetails) {
+    // Firefox re-uses the request id for the redirected request. Redirects
+    // are not linked by url alone, since other requests in the tab may be
+    // made to the same url meanwhile.
+    const pendingRedirect = this.pendingRedirects[details.requestId];
+    if (
+      !pendingRedirect ||
+      pendingRedirect.details.redirectUrl !== details.url
+    ) {
+      return;
+    }
+    pendingRedirect.httpRedirect.new_request_id = details.requestId;
+    this.savePendingRedirect(details.requestId);
+  }
+
+  private savePendingRedirect(requestId: string) {
+    const pendingRedirect = this.pendingRedirects[requestId];
+    if (!pendingRedirect) {
+      return;
+    }
+    delete this.pendingRedirects[requestId];
+    clearTimeout(pendingRedirect.timeout);
+    this.dataReceiver.saveRecord(
+      "http_redirects",
+      pendingRedirect.httpRedirect,
+    );
   }
 
   /*
@@ -508,18 +738,20 @@ export class HttpInstrument {
   */
 
   private async logWithResponseBody(
-    details: WebRequestOnBeforeRequestEventDetails,
     update,
+    pendingResponse: PendingResponse,
+    contentType: string,
   ) {
-    const pendingResponse = this.getPendingResponse(details.requestId);
+    const responseBodyListener = pendingResponse.responseBodyListener;
+    // Requests that were evicted from pendingResponses have lost their
+    // response body listener
+    if (!responseBodyListener) {
+      this.dataReceiver.saveRecord("http_responses", update);
+      return;
+    }
     try {
-      const responseBodyListener = pendingResponse.responseBodyListener;
-      const respBody = await responseBodyListener.getResponseBody();
-      const contentHash = await responseBodyListener.getContentHash();
-      this.dataReceiver.saveContent(
-        escapeString(respBody),
-        escapeString(contentHash),
-      );
+      const responseBody = await responseBodyListener.getResponseBody();
+      this.saveResponseBody(update, responseBody, contentType);
       this.dataReceiver.saveRecord("http_responses", update);
     } catch (err) {
       /*
@@ -544,42 +776,77 @@ export class HttpInstrument {
   }
 
   /**
-   * Return true if this request is loading javascript
-   * We rely mostly on the content policy type to filter responses
-   * and fall back to the URI and content type string for types that can
-   * load various resource types.
+   * Saves the response body, and notes its hash, size and encoding in the
+   * record
+   *
+   * @param update
+   * @param responseBody
+   * @param contentType Value of the Content-Type response header, if known
+   */
+  private saveResponseBody(
+    update: HttpResponse | HttpError,
+    responseBody: ResponseBody,
+    contentType?: string,
+  ) {
+    const respBody = decodeResponseBody(
+      responseBody.content,
+      contentType,
+      responseBody.truncated,
+    );
+    update.content_hash = responseBody.contentHash;
+    update.content_size = responseBody.size;
+    update.content_truncated = boolToInt(responseBody.truncated);
+    update.content_encoding = respBody.encoding;
+    if (respBody.mimeType) {
+      update.content_mime_type = escapeString(respBody.mimeType);
+    }
+    this.dataReceiver.saveContent(
+      escapeString(respBody.content),
+      escapeString(responseBody.contentHash),
+    );
+  }
+
+  /**
+   * Return true if the response body should be saved for this request
+   * We rely on the content policy type to filter responses, as configured
+   * by the saveContent option.
    * See: https://developer.mozilla.org/en-US/docs/Mozilla/Add-ons/WebExtensions/API/webRequest/ResourceType
    *
    * @param resourceType
    */
-  private isJS(resourceType: ResourceType): boolean {
-    return resourceType === "script";
+  private shouldSaveContent(resourceType: ResourceType): boolean {
+    const saveContent = this.config.saveContent;
+    if (typeof saveContent === "boolean") {
+      return saveContent;
+    }
+    return saveContent.indexOf(resourceType) > -1;
   }
 
   // Instrument HTTP responses
   private onCompletedHandler(
     details: WebRequestOnCompletedEventDetails,
     crawlID,
-    saveJavascript,
-    saveAllContent,
+    visitId: number,
+    pendingResponse: PendingResponse,
   ) {
     /*
     console.log(
       "onCompletedHandler (previously httpRequestHandler)",
       details,
       crawlID,
-      saveJavascript,
-      saveAllContent,
     );
     */
 
     // http_responses table schema:
-    // id [auto-filled], crawl_id, url, method, referrer, response_status,
-    // response_status_text, headers, location, visit_id [auto-filled],
+    // id [auto-filled], crawl_id, visit_id, tab_id, frame_id, url, method,
+    // referrer, response_status, response_status_text, headers, location,
     // time_stamp, content_hash
     const update = {} as HttpResponse;
 
     update.crawl_id = crawlID;
+    update.visit_id = visitId;
+    update.tab_id = details.tabId;
+    update.frame_id = details.frameId;
 
     // requestId is a unique identifier that can be used to link requests and responses
     update.request_id = details.requestId;
@@ -603,6 +870,10 @@ export class HttpInstrument {
     const responseStatus = details.statusCode;
     update.response_status = responseStatus;
 
+    if (details.ip) {
+      update.server_ip = escapeString(details.ip);
+    }
+
     const responseStatusText = details.statusLine;
     update.response_status_text = escapeString(responseStatusText);
 
@@ -611,6 +882,7 @@ export class HttpInstrument {
 
     const headers = [];
     let location = "";
+    let contentType;
     if (details.responseHeaders) {
       details.responseHeaders.map(responseHeader => {
         const { name, value } = responseHeader;
@@ -621,17 +893,190 @@ export class HttpInstrument {
         if (name.toLowerCase() === "location") {
           location = value;
         }
+        if (name.toLowerCase() === "content-type") {
+          contentType = value;
+        }
       });
     }
     update.headers = JSON.stringify(headers);
     update.location = escapeString(location);
 
-    if (saveAllContent) {
-      this.logWithResponseBody(details, update);
-    } else if (saveJavascript && this.isJS(details.type)) {
-      this.logWithResponseBody(details, update);
+    if (this.shouldSaveContent(details.type)) {
+      this.logWithResponseBody(update, pendingResponse, contentType);
     } else {
       this.dataReceiver.saveRecord("http_responses", update);
     }
   }
+
+  /**
+   * Saves when the request was started, its headers were sent, the response
+   * headers were received and the response was completed. Phases that did
+   * not happen, eg sending the headers of a response from the cache, or that
+   * were missed since the request started before the instrument, are left
+   * empty.
+   *
+   * @param details
+   * @param crawlID
+   */
+  private saveTiming(
+    details: WebRequestOnCompletedEventDetails,
+    crawlID,
+    visitId: number,
+  ) {
+    const update = this.getPendingTiming(details.requestId);
+
+    update.crawl_id = crawlID;
+    update.visit_id = visitId;
+    update.tab_id = details.tabId;
+    update.frame_id = details.frameId;
+    update.request_id = details.requestId;
+    update.url = escapeString(details.url);
+    update.resource_type = details.type;
+    update.is_cached = boolToInt(details.fromCache);
+    if (details.ip) {
+      update.server_ip = escapeString(details.ip);
+    }
+    update.response_end = new Date(details.timeStamp).toISOString();
+
+    this.dataReceiver.saveRecord("http_timings", update);
+  }
+
+  /**
+   * Return true if this is a secure request to a host whose security info
+   * has not been saved yet, and remember the host. Hosts are remembered
+   * right away, so that concurrent requests to them are not saved twice,
+   * and forgotten again if their security info can not be saved.
+   *
+   * @param url
+   */
+  private shouldSaveSecurityInfo(url: string): boolean {
+    const { protocol, host } = new URL(url);
+    if (
+      (protocol !== "https:" && protocol !== "wss:") ||
+      this.securityInfoHosts.has(host)
+    ) {
+      return false;
+    }
+    this.securityInfoHosts.set(host, true);
+    if (this.securityInfoHosts.size > maxSecurityInfoHosts) {
+      this.securityInfoHosts.delete(this.securityInfoHosts.keys().next().value);
+    }
+    return true;
+  }
+
+  private async saveSecurityInfo(
+    details: WebRequestOnHeadersReceivedEventDetails,
+    crawlID,
+    visitId: number,
+  ) {
+    let securityInfo: browser.webRequest.SecurityInfo;
+    try {
+      securityInfo = await browser.webRequest.getSecurityInfo(
+        details.requestId,
+        { certificateChain: true },
+      );
+    } catch (error) {
+      this.dataReceiver.logError(
+        "Unable to get the security info of " + details.url + ": " + error,
+      );
+      this.securityInfoHosts.delete(new URL(details.url).host);
+      return;
+    }
+    if (securityInfo.state === "insecure") {
+      this.securityInfoHosts.delete(new URL(details.url).host);
+      return;
+    }
+
+    const update = {} as TlsInfo;
+
+    update.crawl_id = crawlID;
+    update.visit_id = visitId;
+    update.tab_id = details.tabId;
+    update.frame_id = details.frameId;
+    update.request_id = details.requestId;
+    update.host = escapeString(new URL(details.url).host);
+    update.state = securityInfo.state;
+    if (securityInfo.errorMessage) {
+      update.error_message = escapeString(securityInfo.errorMessage);
+    }
+    update.protocol_version = securityInfo.protocolVersion;
+    if (securityInfo.cipherSuite) {
+      update.cipher_suite = escapeString(securityInfo.cipherSuite);
+    }
+    if (securityInfo.keaGroupName) {
+      update.key_exchange_group = escapeString(securityInfo.keaGroupName);
+    }
+    if (securityInfo.signatureSchemeName) {
+      update.signature_scheme = escapeString(securityInfo.signatureSchemeName);
+    }
+
+    // The server certificate comes first, followed by its issuers
+    const certificates = securityInfo.certificates || [];
+    update.certificate_fingerprints = JSON.stringify(
+      certificates.map(certificate => certificate.fingerprint.sha256),
+    );
+    if (certificates.length > 0) {
+      const [certificate] = certificates;
+      update.certificate_subject = escapeString(certificate.subject);
+      update.certificate_issuer = escapeString(certificate.issuer);
+      update.certificate_valid_from = new Date(
+        certificate.validity.start,
+      ).toISOString();
+      update.certificate_valid_until = new Date(
+        certificate.validity.end,
+      ).toISOString();
+    }
+
+    update.is_hsts = boolToInt(!!securityInfo.hsts);
+    update.certificate_transparency_status =
+      securityInfo.certificateTransparencyStatus;
+
+    const current_time = new Date(details.timeStamp);
+    update.time_stamp = current_time.toISOString();
+
+    this.dataReceiver.saveRecord("tls_info", update);
+  }
+
+  // Instrument failed requests
+  private async onErrorOccurredHandler(
+    details: WebRequestOnErrorOccurredEventDetails,
+    crawlID,
+    visitId: number,
+    pendingResponse?: PendingResponse,
+  ) {
+    const update = {} as HttpError;
+
+    update.crawl_id = crawlID;
+    update.visit_id = visitId;
+    update.tab_id = details.tabId;
+    update.frame_id = details.frameId;
+    update.request_id = details.requestId;
+    update.url = escapeString(details.url);
+    update.method = escapeString(details.method);
+    update.resource_type = details.type;
+    update.is_cached = boolToInt(details.fromCache);
+
+    // eg "NS_ERROR_NET_RESET", or "NS_ERROR_ABORT" for cancelled requests
+    update.error = escapeString(details.error);
+
+    const current_time = new Date(details.timeStamp);
+    update.time_stamp = current_time.toISOString();
+
+    // Save the part of the response body that arrived before the error
+    if (pendingResponse && pendingResponse.responseBodyListener) {
+      const responseBodyListener = pendingResponse.responseBodyListener;
+      responseBodyListener.flush();
+      try {
+        const responseBody = await responseBodyListener.getResponseBody();
+        if (responseBody.size > 0) {
+          this.saveResponseBody(update, responseBody);
+        }
+      } catch (err) {
+        // The stream filter failed along with the request, in which case
+        // there is no body to save
+      }
+    }
+
+    this.dataReceiver.saveRecord("http_errors", update);
+  }
 }
@@ -0,0 +1,86 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { InMemoryDataReceiver } from "../lib/in-memory-data-receiver";
+import { FakeBrowser, installFakeBrowser } from "../testing/fake-browser";
+import { JavascriptInstrument } from "./javascript-instrument";
+
+let fakeBrowser: FakeBrowser;
+let dataReceiver: InMemoryDataReceiver;
+
+const logCall = (data = {}) => ({
+  namespace: "javascript-instrumentation",
+  type: "logCall",
+  data: {
+    operation: "call",
+    symbol: "window.navigator.sendBeacon",
+    args: ["https://tracker.test/beacon"],
+    value: "",
+    scriptUrl: "https://example.com/app.js",
+    scriptLine: "10",
+    scriptCol: "5",
+    funcName: "track",
+    scriptLocEval: "",
+    callStack: "track@https://example.com/app.js:10:5",
+    timeStamp: "2018-01-01T00:00:00.000Z",
+    ...data,
+  },
+});
+
+const sender = (overrides = {}) => ({
+  tab: { id: 1, windowId: 1, url: "https://example.com/" },
+  frameId: 0,
+  url: "https://example.com/",
+  ...overrides,
+});
+
+test.beforeEach(() => {
+  fakeBrowser = installFakeBrowser();
+  dataReceiver = new InMemoryDataReceiver();
+});
+
+test.serial("records calls from content scripts", async t => {
+  const instrument = new JavascriptInstrument(dataReceiver);
+  instrument.run(1);
+  await fakeBrowser.replay([
+    { dispatch: "runtime.onMessage", args: [logCall(), sender()] },
+  ]);
+
+  const [record] = dataReceiver.getRecords("javascript");
+  t.is(record.crawl_id, 1);
+  t.is(record.tab_id, 1);
+  t.is(record.frame_id, 0);
+  t.is(record.symbol, "window.navigator.sendBeacon");
+  t.is(record.operation, "call");
+  t.is(record.arguments, JSON.stringify(["https://tracker.test/beacon"]));
+  t.is(record.script_url, "https://example.com/app.js");
+  t.is(record.document_url, "https://example.com/");
+  t.is(record.top_level_url, "https://example.com/");
+  t.is(record.time_stamp, "2018-01-01T00:00:00.000Z");
+  instrument.cleanup();
+  t.false(fakeBrowser.runtime.onMessage.hasListeners());
+});
+
+test.serial("ignores other messages and uninstrumented senders", async t => {
+  const instrument = new JavascriptInstrument(dataReceiver, { tabId: 1 });
+  instrument.run(1);
+  await fakeBrowser.replay([
+    {
+      dispatch: "runtime.onMessage",
+      args: [{ ...logCall(), namespace: "other" }, sender()],
+    },
+    {
+      dispatch: "runtime.onMessage",
+      args: [
+        logCall(),
+        sender({ tab: { id: 2, windowId: 1, url: "https://example.com/" } }),
+      ],
+    },
+    {
+      dispatch: "runtime.onMessage",
+      args: [logCall(), sender({ url: "moz-extension://1234/popup.html" })],
+    },
+    { dispatch: "runtime.onMessage", args: [logCall(), sender({ tab: null })] },
+  ]);
+  t.is(dataReceiver.getRecords("javascript").length, 0);
+  instrument.cleanup();
+});
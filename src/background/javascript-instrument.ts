@@ -1,18 +1,68 @@
+import { DataReceiver } from "../lib/data-receiver";
+import {
+  JavascriptInstrumentConfig,
+  validateJavascriptInstrumentConfig,
+} from "../lib/instrument-config";
+import { urlMatchesPatterns } from "../lib/match-patterns";
 import { escapeString } from "../lib/string-utils";
 import { JavascriptOperation } from "../schema";
+import {
+  getCurrentVisitId,
+  NavigationInstrument,
+} from "./navigation-instrument";
 
 export class JavascriptInstrument {
-  private readonly dataReceiver;
+  private readonly dataReceiver: DataReceiver;
+  private readonly config: JavascriptInstrumentConfig;
+  private readonly navigationInstrument: NavigationInstrument;
   private onMessageListener;
 
-  constructor(dataReceiver) {
+  constructor(
+    dataReceiver: DataReceiver,
+    config: JavascriptInstrumentConfig = {},
+    navigationInstrument?: NavigationInstrument,
+  ) {
     this.dataReceiver = dataReceiver;
+    this.config = validateJavascriptInstrumentConfig(config);
+    this.navigationInstrument = navigationInstrument;
   }
 
   public run(crawlID) {
+    const senderIsInstrumented = sender => {
+      const senderIsExtension =
+        sender.url && sender.url.indexOf("moz-extension://") > -1;
+      if (senderIsExtension && this.config.excludeExtensionOrigins) {
+        return false;
+      }
+      if (!sender.tab) {
+        return false;
+      }
+      if (
+        this.config.tabId !== undefined &&
+        sender.tab.id !== this.config.tabId
+      ) {
+        return false;
+      }
+      if (
+        this.config.windowId !== undefined &&
+        sender.tab.windowId !== this.config.windowId
+      ) {
+        return false;
+      }
+      return (
+        senderIsExtension || urlMatchesPatterns(sender.url, this.config.urls)
+      );
+    };
+
     const processCallsAndValues = (data, sender) => {
       const update = {} as JavascriptOperation;
       update.crawl_id = crawlID;
+      update.visit_id = getCurrentVisitId(
+        this.navigationInstrument,
+        sender.tab.id,
+      );
+      update.tab_id = sender.tab.id;
+      update.frame_id = sender.frameId;
       update.script_url = escapeString(data.scriptUrl);
       update.script_line = escapeString(data.scriptLine);
       update.script_col = escapeString(data.scriptCol);
@@ -39,7 +89,11 @@ export class JavascriptInstrument {
     // Listen for messages from content script injected to instrument JavaScript API
     this.onMessageListener = (msg, sender) => {
       // console.debug("javascript-instrumentation background listener - msg, sender, sendReply", msg, sender, sendReply);
-      if (msg.namespace && msg.namespace === "javascript-instrumentation") {
+      if (
+        msg.namespace &&
+        msg.namespace === "javascript-instrumentation" &&
+        senderIsInstrumented(sender)
+      ) {
         switch (msg.type) {
           case "logCall":
           case "logValue":
@@ -0,0 +1,296 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { InMemoryDataReceiver } from "../lib/in-memory-data-receiver";
+import {
+  FakeBrowser,
+  installFakeBrowser,
+  requestDetails,
+  requestEvents,
+  ScriptedEvent,
+  settle,
+} from "../testing/fake-browser";
+import { CookieInstrument } from "./cookie-instrument";
+import { DnsInstrument } from "./dns-instrument";
+import { HttpInstrument } from "./http-instrument";
+import { NavigationInstrument } from "./navigation-instrument";
+
+let fakeBrowser: FakeBrowser;
+let dataReceiver: InMemoryDataReceiver;
+
+test.beforeEach(() => {
+  fakeBrowser = installFakeBrowser();
+  dataReceiver = new InMemoryDataReceiver();
+});
+
+const timeStamp = Date.UTC(2018, 0, 1);
+
+/**
+ * Returns the onBeforeNavigate and onCommitted events of a navigation
+ *
+ * @param tabId
+ * @param frameId
+ * @param url
+ */
+const navigationEvents = (
+  tabId: number,
+  frameId: number,
+  url: string,
+): ScriptedEvent[] => [
+  {
+    dispatch: "webNavigation.onBeforeNavigate",
+    args: [
+      { tabId, frameId, parentFrameId: frameId === 0 ? -1 : 0, url, timeStamp },
+    ],
+  },
+  {
+    dispatch: "webNavigation.onCommitted",
+    args: [
+      {
+        tabId,
+        frameId,
+        url,
+        timeStamp,
+        transitionType: frameId === 0 ? "typed" : "auto_subframe",
+        transitionQualifiers: [],
+      },
+    ],
+  },
+];
+
+test.serial("starts a new visit at each top-level navigation", async t => {
+  const instrument = new NavigationInstrument(dataReceiver);
+  instrument.run(1);
+  t.is(instrument.getVisitId(1), undefined);
+
+  await fakeBrowser.replay(navigationEvents(1, 0, "https://example.com/"));
+  t.is(instrument.getVisitId(1), 1);
+
+  // Subframes load as part of the visit of their tab
+  await fakeBrowser.replay(navigationEvents(1, 5, "https://ads.test/frame"));
+  t.is(instrument.getVisitId(1), 1);
+
+  await fakeBrowser.replay(navigationEvents(1, 0, "https://example.com/next"));
+  t.is(instrument.getVisitId(1), 2);
+
+  const navigations = dataReceiver.getRecords("navigations");
+  t.deepEqual(
+    navigations.map(navigation => [
+      navigation.event,
+      navigation.visit_id,
+      navigation.frame_id,
+      navigation.url,
+    ]),
+    [
+      ["before_navigate", 1, 0, "https://example.com/"],
+      ["committed", 1, 0, "https://example.com/"],
+      ["before_navigate", 1, 5, "https://ads.test/frame"],
+      ["committed", 1, 5, "https://ads.test/frame"],
+      ["before_navigate", 2, 0, "https://example.com/next"],
+      ["committed", 2, 0, "https://example.com/next"],
+    ],
+  );
+  const [beforeNavigate, committed] = navigations;
+  t.is(beforeNavigate.crawl_id, 1);
+  t.is(beforeNavigate.tab_id, 1);
+  t.is(beforeNavigate.parent_frame_id, -1);
+  t.is(beforeNavigate.time_stamp, "2018-01-01T00:00:00.000Z");
+  t.is(committed.transition_type, "typed");
+  t.is(committed.transition_qualifiers, "[]");
+  instrument.cleanup();
+});
+
+test.serial("keeps the visits of tabs apart", async t => {
+  const instrument = new NavigationInstrument(dataReceiver);
+  instrument.run(1);
+  await fakeBrowser.replay([
+    ...navigationEvents(1, 0, "https://example.com/"),
+    ...navigationEvents(2, 0, "https://example.org/"),
+  ]);
+  t.is(instrument.getVisitId(1), 1);
+  t.is(instrument.getVisitId(2), 2);
+  t.is(instrument.getUnambiguousVisit(), undefined);
+
+  await fakeBrowser.replay([{ dispatch: "tabs.onRemoved", args: [2, {}] }]);
+  t.is(instrument.getVisitId(2), undefined);
+  t.deepEqual(instrument.getUnambiguousVisit(), { tabId: 1, visitId: 1 });
+  instrument.cleanup();
+});
+
+test.serial("keeps the visit on history state updates", async t => {
+  const instrument = new NavigationInstrument(dataReceiver);
+  instrument.run(1);
+  await fakeBrowser.replay([
+    ...navigationEvents(1, 0, "https://example.com/"),
+    {
+      dispatch: "webNavigation.onHistoryStateUpdated",
+      args: [
+        {
+          tabId: 1,
+          frameId: 0,
+          url: "https://example.com/#/inbox",
+          timeStamp,
+          transitionType: "link",
+          transitionQualifiers: [],
+        },
+      ],
+    },
+  ]);
+  t.is(instrument.getVisitId(1), 1);
+  const update = dataReceiver.getRecords("navigations")[2];
+  t.is(update.event, "history_state_updated");
+  t.is(update.visit_id, 1);
+  instrument.cleanup();
+});
+
+test.serial("tags the records of other instruments with the visit", async t => {
+  const navigationInstrument = new NavigationInstrument(dataReceiver);
+  navigationInstrument.run(1);
+  const httpInstrument = new HttpInstrument(
+    dataReceiver,
+    {},
+    navigationInstrument,
+  );
+  httpInstrument.run(1);
+  fakeBrowser.openTab({ id: 1, url: "https://example.com/" });
+  fakeBrowser.openTab({ id: 2, url: "https://example.org/" });
+  await fakeBrowser.replay([
+    ...navigationEvents(1, 0, "https://example.com/"),
+    ...requestEvents({ requestId: "1", url: "https://example.com/" }),
+    ...navigationEvents(2, 0, "https://example.org/"),
+    ...requestEvents({ requestId: "2", url: "https://example.org/", tabId: 2 }),
+    ...requestEvents({ requestId: "3", url: "https://example.com/app.js" }),
+  ]);
+
+  t.deepEqual(
+    dataReceiver
+      .getRecords("http_requests")
+      .map(request => [request.request_id, request.tab_id, request.visit_id]),
+    [["1", 1, 1], ["2", 2, 2], ["3", 1, 1]],
+  );
+  t.deepEqual(
+    dataReceiver
+      .getRecords("http_responses")
+      .map(response => [response.request_id, response.visit_id]),
+    [["1", 1], ["2", 2], ["3", 1]],
+  );
+  httpInstrument.cleanup();
+  navigationInstrument.cleanup();
+});
+
+test.serial(
+  "tags records with the visit that was current when the event arrived",
+  async t => {
+    const navigationInstrument = new NavigationInstrument(dataReceiver);
+    navigationInstrument.run(1);
+    const httpInstrument = new HttpInstrument(
+      dataReceiver,
+      { recordSecurityInfo: true },
+      navigationInstrument,
+    );
+    httpInstrument.run(1);
+    const cookieInstrument = new CookieInstrument(
+      dataReceiver,
+      {},
+      navigationInstrument,
+    );
+    cookieInstrument.run(1);
+    fakeBrowser.cookieStores = [
+      { id: "firefox-default", tabIds: [1], incognito: false },
+    ];
+    fakeBrowser.securityInfos["1"] = {
+      state: "secure",
+      certificates: [],
+    } as browser.webRequest.SecurityInfo;
+    await fakeBrowser.replay(navigationEvents(1, 0, "https://example.com/"));
+
+    // The tab navigates while the security info and the cookie store are
+    // being looked up
+    fakeBrowser.webRequest.onHeadersReceived.dispatch({
+      ...requestDetails({ requestId: "1", url: "https://example.com/" }),
+      statusCode: 200,
+      statusLine: "HTTP/1.1 200 OK",
+      responseHeaders: [],
+    });
+    fakeBrowser.cookies.onChanged.dispatch({
+      removed: false,
+      cookie: {
+        name: "uid",
+        value: "123",
+        domain: "example.com",
+        hostOnly: true,
+        path: "/",
+        secure: true,
+        httpOnly: false,
+        sameSite: "no_restriction",
+        session: true,
+        storeId: "firefox-default",
+        firstPartyDomain: "",
+      },
+      cause: "explicit",
+    });
+    fakeBrowser.webNavigation.onBeforeNavigate.dispatch({
+      tabId: 1,
+      frameId: 0,
+      parentFrameId: -1,
+      url: "https://example.org/",
+      timeStamp,
+    });
+    await settle();
+
+    t.is(navigationInstrument.getVisitId(1), 2);
+    t.is(dataReceiver.getRecords("tls_info")[0].visit_id, 1);
+    t.is(dataReceiver.getRecords("javascript_cookies")[0].visit_id, 1);
+    cookieInstrument.cleanup();
+    httpInstrument.cleanup();
+    navigationInstrument.cleanup();
+  },
+);
+
+test.serial(
+  "tags DNS responses with the visit that was current when the request completed",
+  async t => {
+    const navigationInstrument = new NavigationInstrument(dataReceiver);
+    navigationInstrument.run(1);
+    let resolveHostname: (record: browser.dns.DNSRecord) => void;
+    const dnsInstrument = new DnsInstrument(
+      dataReceiver,
+      {},
+      navigationInstrument,
+      () =>
+        new Promise(resolve => {
+          resolveHostname = resolve;
+        }),
+    );
+    dnsInstrument.run(1);
+    await fakeBrowser.replay([
+      ...navigationEvents(1, 0, "https://example.com/"),
+      ...requestEvents({ requestId: "1", url: "https://example.com/" }),
+    ]);
+
+    // The tab navigates while the hostname is being resolved
+    await fakeBrowser.replay(navigationEvents(1, 0, "https://example.org/"));
+    resolveHostname({
+      canonicalName: "example.com",
+      isTRR: "false",
+      addresses: ["198.51.100.1"],
+    });
+    await settle();
+
+    t.is(navigationInstrument.getVisitId(1), 2);
+    t.is(dataReceiver.getRecords("dns_responses")[0].visit_id, 1);
+    dnsInstrument.cleanup();
+    navigationInstrument.cleanup();
+  },
+);
+
+test.serial("removes its listeners on cleanup", t => {
+  const instrument = new NavigationInstrument(dataReceiver);
+  instrument.run(1);
+  t.true(fakeBrowser.webNavigation.onBeforeNavigate.hasListeners());
+  instrument.cleanup();
+  t.false(fakeBrowser.webNavigation.onBeforeNavigate.hasListeners());
+  t.false(fakeBrowser.webNavigation.onCommitted.hasListeners());
+  t.false(fakeBrowser.webNavigation.onCompleted.hasListeners());
+  t.false(fakeBrowser.webNavigation.onHistoryStateUpdated.hasListeners());
+  t.false(fakeBrowser.tabs.onRemoved.hasListeners());
+});
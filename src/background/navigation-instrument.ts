@@ -0,0 +1,187 @@
+import { DataReceiver } from "../lib/data-receiver";
+import { escapeString } from "../lib/string-utils";
+import { Navigation } from "../schema";
+import {
+  WebNavigationBaseEventDetails,
+  WebNavigationOnBeforeNavigateEventDetails,
+  WebNavigationOnCommittedEventDetails,
+} from "../types/browser-web-navigation-event-details";
+
+/**
+ * Returns the id of the visit that is current in the tab, for tagging the
+ * records of the other instruments. These take a NavigationInstrument as
+ * their optional last constructor argument and leave visit_id unset without
+ * one, or if no top-level navigation has been seen in the tab.
+ *
+ * @param navigationInstrument
+ * @param tabId
+ */
+export const getCurrentVisitId = (
+  navigationInstrument: NavigationInstrument | undefined,
+  tabId: number,
+): number | undefined =>
+  navigationInstrument ? navigationInstrument.getVisitId(tabId) : undefined;
+
+/**
+ * Records navigations and assigns a visit_id to each top-level navigation.
+ * Visit ids are assigned sequentially, starting at 1, in the order that
+ * top-level navigations start. Pass the instrument to the other instruments
+ * to have their records tagged with the visit that is current in their tab.
+ */
+export class NavigationInstrument {
+  private readonly dataReceiver: DataReceiver;
+  private visitIds: {
+    [tabId: number]: number;
+  } = {};
+  private lastVisitId = 0;
+  private onBeforeNavigateListener;
+  private onCommittedListener;
+  private onCompletedListener;
+  private onHistoryStateUpdatedListener;
+  private onTabRemovedListener;
+
+  constructor(dataReceiver: DataReceiver) {
+    this.dataReceiver = dataReceiver;
+  }
+
+  public run(crawlID) {
+    this.onBeforeNavigateListener = (
+      details: WebNavigationOnBeforeNavigateEventDetails,
+    ) => {
+      // A new top-level navigation starts a new visit
+      if (details.frameId === 0) {
+        this.lastVisitId++;
+        this.visitIds[details.tabId] = this.lastVisitId;
+      }
+      const navigation = this.createNavigation(
+        "before_navigate",
+        details,
+        crawlID,
+      );
+      navigation.parent_frame_id = details.parentFrameId;
+      this.dataReceiver.saveRecord("navigations", navigation);
+    };
+    browser.webNavigation.onBeforeNavigate.addListener(
+      this.onBeforeNavigateListener,
+    );
+
+    this.onCommittedListener = (
+      details: WebNavigationOnCommittedEventDetails,
+    ) => {
+      this.dataReceiver.saveRecord(
+        "navigations",
+        this.createNavigation("committed", details, crawlID),
+      );
+    };
+    browser.webNavigation.onCommitted.addListener(this.onCommittedListener);
+
+    this.onCompletedListener = (details: WebNavigationBaseEventDetails) => {
+      this.dataReceiver.saveRecord(
+        "navigations",
+        this.createNavigation("completed", details, crawlID),
+      );
+    };
+    browser.webNavigation.onCompleted.addListener(this.onCompletedListener);
+
+    // History state updates (eg by single-page apps) do not load a new
+    // document and are thus considered part of the current visit
+    this.onHistoryStateUpdatedListener = (
+      details: WebNavigationOnCommittedEventDetails,
+    ) => {
+      this.dataReceiver.saveRecord(
+        "navigations",
+        this.createNavigation("history_state_updated", details, crawlID),
+      );
+    };
+    browser.webNavigation.onHistoryStateUpdated.addListener(
+      this.onHistoryStateUpdatedListener,
+    );
+
+    this.onTabRemovedListener = (tabId: number) => {
+      delete this.visitIds[tabId];
+    };
+    browser.tabs.onRemoved.addListener(this.onTabRemovedListener);
+  }
+
+  public cleanup() {
+    if (this.onBeforeNavigateListener) {
+      browser.webNavigation.onBeforeNavigate.removeListener(
+        this.onBeforeNavigateListener,
+      );
+    }
+    if (this.onCommittedListener) {
+      browser.webNavigation.onCommitted.removeListener(
+        this.onCommittedListener,
+      );
+    }
+    if (this.onCompletedListener) {
+      browser.webNavigation.onCompleted.removeListener(
+        this.onCompletedListener,
+      );
+    }
+    if (this.onHistoryStateUpdatedListener) {
+      browser.webNavigation.onHistoryStateUpdated.removeListener(
+        this.onHistoryStateUpdatedListener,
+      );
+    }
+    if (this.onTabRemovedListener) {
+      browser.tabs.onRemoved.removeListener(this.onTabRemovedListener);
+    }
+  }
+
+  /**
+   * Returns the id of the visit that is current in the tab, or undefined
+   * if no top-level navigation has been seen in the tab
+   *
+   * @param tabId
+   */
+  public getVisitId(tabId: number): number | undefined {
+    return this.visitIds[tabId];
+  }
+
+  /**
+   * Returns the ids of the visits that are current in each tab
+   */
+  public getVisitIds(): { [tabId: number]: number } {
+    return { ...this.visitIds };
+  }
+
+  /**
+   * Returns the tab and visit id if only a single tab has a current visit.
+   * Used for events that are not tied to a tab (eg cookie changes), which
+   * can only be attributed unambiguously when crawling in a single tab.
+   */
+  public getUnambiguousVisit(): { tabId: number; visitId: number } | undefined {
+    const tabIds = Object.keys(this.visitIds);
+    if (tabIds.length !== 1) {
+      return undefined;
+    }
+    const tabId = Number(tabIds[0]);
+    return { tabId, visitId: this.visitIds[tabId] };
+  }
+
+  private createNavigation(
+    event: Navigation["event"],
+    details: WebNavigationOnCommittedEventDetails,
+    crawlID,
+  ): Navigation {
+    const navigation: Navigation = {
+      crawl_id: crawlID,
+      visit_id: this.getVisitId(details.tabId),
+      tab_id: details.tabId,
+      frame_id: details.frameId,
+      event,
+      url: escapeString(details.url),
+      time_stamp: new Date(details.timeStamp).toISOString(),
+    };
+    if (details.transitionType) {
+      navigation.transition_type = details.transitionType;
+    }
+    if (details.transitionQualifiers) {
+      navigation.transition_qualifiers = escapeString(
+        JSON.stringify(details.transitionQualifiers),
+      );
+    }
+    return navigation;
+  }
+}
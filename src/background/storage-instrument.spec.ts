@@ -0,0 +1,138 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { InMemoryDataReceiver } from "../lib/in-memory-data-receiver";
+import { FakeBrowser, installFakeBrowser } from "../testing/fake-browser";
+import { StorageInstrument } from "./storage-instrument";
+
+let fakeBrowser: FakeBrowser;
+let dataReceiver: InMemoryDataReceiver;
+
+const logStorageAccess = (data = {}) => ({
+  namespace: "javascript-instrumentation",
+  type: "logStorageAccess",
+  data: {
+    area: "localStorage",
+    operation: "set",
+    key: "uid",
+    valueSize: 6,
+    value: "abc123",
+    scriptUrl: "https://example.com/app.js",
+    scriptLine: "10",
+    scriptCol: "5",
+    funcName: "track",
+    scriptLocEval: "",
+    callStack: "track@https://example.com/app.js:10:5",
+    timeStamp: "2018-01-01T00:00:00.000Z",
+    ...data,
+  },
+});
+
+const sender = (overrides = {}) => ({
+  tab: { id: 1, windowId: 1, url: "https://example.com/" },
+  frameId: 0,
+  url: "https://example.com/",
+  ...overrides,
+});
+
+test.beforeEach(() => {
+  fakeBrowser = installFakeBrowser();
+  dataReceiver = new InMemoryDataReceiver();
+});
+
+test.serial("records storage access along with its area", async t => {
+  const instrument = new StorageInstrument(dataReceiver);
+  instrument.run(1);
+  await fakeBrowser.replay([
+    { dispatch: "runtime.onMessage", args: [logStorageAccess(), sender()] },
+    {
+      dispatch: "runtime.onMessage",
+      args: [
+        logStorageAccess({
+          area: "indexedDB",
+          operation: "get",
+          name: "db/store",
+          key: "[1,2]",
+          valueSize: 13,
+          value: '{"uid":"abc"}',
+        }),
+        sender({ frameId: 2, url: "https://frame.test/" }),
+      ],
+    },
+  ]);
+
+  const [local, indexedDB] = dataReceiver.getRecords("javascript_storage");
+  t.is(local.crawl_id, 1);
+  t.is(local.tab_id, 1);
+  t.is(local.frame_id, 0);
+  t.is(local.storage_area, "localStorage");
+  t.is(local.operation, "set");
+  t.is(local.storage_name, undefined);
+  t.is(local.key, "uid");
+  t.is(local.value_size, 6);
+  t.is(local.value, "abc123");
+  t.is(local.value_truncated, 0);
+  t.is(local.script_url, "https://example.com/app.js");
+  t.is(local.call_stack, "track@https://example.com/app.js:10:5");
+  t.is(local.document_url, "https://example.com/");
+  t.is(local.top_level_url, "https://example.com/");
+  t.is(local.time_stamp, "2018-01-01T00:00:00.000Z");
+  t.is(indexedDB.storage_area, "indexedDB");
+  t.is(indexedDB.storage_name, "db/store");
+  t.is(indexedDB.key, "[1,2]");
+  t.is(indexedDB.value, '{"uid":"abc"}');
+  t.is(indexedDB.frame_id, 2);
+  t.is(indexedDB.document_url, "https://frame.test/");
+  instrument.cleanup();
+  t.false(fakeBrowser.runtime.onMessage.hasListeners());
+});
+
+test.serial("truncates or leaves out values as configured", async t => {
+  const truncating = new StorageInstrument(dataReceiver, { maxValueSize: 3 });
+  truncating.run(1);
+  await fakeBrowser.replay([
+    { dispatch: "runtime.onMessage", args: [logStorageAccess(), sender()] },
+    // The emoji is a surrogate pair of four bytes, which is left out whole
+    {
+      dispatch: "runtime.onMessage",
+      args: [logStorageAccess({ value: "a😀", valueSize: 5 }), sender()],
+    },
+  ]);
+  truncating.cleanup();
+  const withoutValues = new StorageInstrument(dataReceiver, {
+    saveValues: false,
+  });
+  withoutValues.run(1);
+  await fakeBrowser.replay([
+    { dispatch: "runtime.onMessage", args: [logStorageAccess(), sender()] },
+  ]);
+  withoutValues.cleanup();
+
+  const records = dataReceiver.getRecords("javascript_storage");
+  t.deepEqual(
+    records.map(record => [
+      record.value,
+      record.value_truncated,
+      record.value_size,
+    ]),
+    [["abc", 1, 6], ["a", 1, 5], [undefined, undefined, 6]],
+  );
+});
+
+test.serial("only records access from the configured documents", async t => {
+  const instrument = new StorageInstrument(dataReceiver, {
+    urls: ["https://example.com/*"],
+  });
+  instrument.run(1);
+  await fakeBrowser.replay([
+    {
+      dispatch: "runtime.onMessage",
+      args: [logStorageAccess(), sender({ url: "https://frame.test/" })],
+    },
+    {
+      dispatch: "runtime.onMessage",
+      args: [logStorageAccess(), { url: "https://example.com/" }],
+    },
+  ]);
+  t.is(dataReceiver.getRecords("javascript_storage").length, 0);
+  instrument.cleanup();
+});
@@ -0,0 +1,97 @@
+import { DataReceiver } from "../lib/data-receiver";
+import {
+  StorageInstrumentConfig,
+  validateStorageInstrumentConfig,
+} from "../lib/instrument-config";
+import { urlMatchesPatterns } from "../lib/match-patterns";
+import { boolToInt, escapeString, truncateUtf8 } from "../lib/string-utils";
+import { JavascriptStorage } from "../schema";
+import {
+  getCurrentVisitId,
+  NavigationInstrument,
+} from "./navigation-instrument";
+
+/**
+ * Records access to localStorage, sessionStorage, IndexedDB, the Cache API
+ * and cookies by scripts to the `javascript_storage` table. The accesses are
+ * observed by the page script, which must be injected with
+ * `recordStorageAccess` enabled.
+ */
+export class StorageInstrument {
+  private readonly dataReceiver: DataReceiver;
+  private readonly config: StorageInstrumentConfig;
+  private readonly navigationInstrument: NavigationInstrument;
+  private onMessageListener;
+
+  constructor(
+    dataReceiver: DataReceiver,
+    config: StorageInstrumentConfig = {},
+    navigationInstrument?: NavigationInstrument,
+  ) {
+    this.dataReceiver = dataReceiver;
+    this.config = validateStorageInstrumentConfig(config);
+    this.navigationInstrument = navigationInstrument;
+  }
+
+  public run(crawlID) {
+    this.onMessageListener = (msg, sender) => {
+      if (
+        msg.namespace &&
+        msg.namespace === "javascript-instrumentation" &&
+        msg.type === "logStorageAccess" &&
+        sender.tab &&
+        urlMatchesPatterns(sender.url, this.config.urls)
+      ) {
+        this.logStorageAccess(msg.data, sender, crawlID);
+      }
+    };
+    browser.runtime.onMessage.addListener(this.onMessageListener);
+  }
+
+  public cleanup() {
+    if (this.onMessageListener) {
+      browser.runtime.onMessage.removeListener(this.onMessageListener);
+    }
+  }
+
+  private logStorageAccess(data, sender, crawlID) {
+    const update = {} as JavascriptStorage;
+    update.crawl_id = crawlID;
+    update.visit_id = getCurrentVisitId(
+      this.navigationInstrument,
+      sender.tab.id,
+    );
+    update.tab_id = sender.tab.id;
+    update.frame_id = sender.frameId;
+    update.document_url = escapeString(sender.url);
+    update.top_level_url = escapeString(sender.tab.url);
+    update.script_url = escapeString(data.scriptUrl);
+    update.script_line = escapeString(data.scriptLine);
+    update.script_col = escapeString(data.scriptCol);
+    update.func_name = escapeString(data.funcName);
+    update.script_loc_eval = escapeString(data.scriptLocEval);
+    update.call_stack = escapeString(data.callStack);
+    update.storage_area = data.area;
+    update.operation = data.operation;
+    if (data.name !== undefined) {
+      update.storage_name = escapeString(data.name);
+    }
+    if (data.key !== undefined) {
+      update.key = escapeString(data.key);
+    }
+    update.value_size = data.valueSize;
+    if (this.config.saveValues && data.value !== undefined) {
+      this.setValue(update, data.value);
+    }
+    update.time_stamp = data.timeStamp;
+    this.dataReceiver.saveRecord("javascript_storage", update);
+  }
+
+  private setValue(update: JavascriptStorage, value: string) {
+    const maxValueSize = this.config.maxValueSize;
+    const saved =
+      maxValueSize !== undefined ? truncateUtf8(value, maxValueSize) : value;
+    update.value = escapeString(saved);
+    update.value_truncated = boolToInt(saved.length < value.length);
+  }
+}
@@ -0,0 +1,145 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { InMemoryDataReceiver } from "../lib/in-memory-data-receiver";
+import {
+  FakeBrowser,
+  installFakeBrowser,
+  requestDetails,
+} from "../testing/fake-browser";
+import { WebSocketInstrument } from "./websocket-instrument";
+
+let fakeBrowser: FakeBrowser;
+let dataReceiver: InMemoryDataReceiver;
+
+const sender = {
+  tab: { id: 1, windowId: 1, url: "https://example.com/" },
+  frameId: 0,
+  url: "https://example.com/",
+};
+
+const webSocketEvent = (data: object) => ({
+  dispatch: "runtime.onMessage",
+  args: [
+    {
+      namespace: "javascript-instrumentation",
+      type: "logWebSocketEvent",
+      data: {
+        connectionId: "abc-1",
+        url: "wss://tracker.test/socket",
+        timeStamp: new Date(Date.UTC(2018, 0, 1, 0, 0, 1)).toISOString(),
+        ...data,
+      },
+    },
+    sender,
+  ],
+});
+
+test.beforeEach(() => {
+  fakeBrowser = installFakeBrowser();
+  dataReceiver = new InMemoryDataReceiver();
+});
+
+test.serial(
+  "records connections and frames linked to the handshake",
+  async t => {
+    const instrument = new WebSocketInstrument(dataReceiver);
+    instrument.run(1);
+    await fakeBrowser.replay([
+      {
+        dispatch: "webRequest.onBeforeSendHeaders",
+        args: [
+          requestDetails({
+            requestId: "7",
+            url: "https://tracker.test/socket",
+            type: "websocket",
+          }),
+        ],
+      },
+      webSocketEvent({ event: "open" }),
+      webSocketEvent({
+        event: "frame",
+        direction: "sent",
+        opcode: 1,
+        size: 5,
+        payload: "hello",
+      }),
+      webSocketEvent({
+        event: "frame",
+        direction: "received",
+        opcode: 2,
+        size: 3,
+        payload: "AQID",
+      }),
+      webSocketEvent({ event: "close", closeCode: 1000, closeReason: "done" }),
+    ]);
+
+    const records = dataReceiver.getRecords("websocket_frames");
+    t.deepEqual(records.map(record => record.event), [
+      "open",
+      "frame",
+      "frame",
+      "close",
+    ]);
+    records.forEach(record => {
+      t.is(record.request_id, "7");
+      t.is(record.connection_id, "abc-1");
+      t.is(record.tab_id, 1);
+      t.is(record.url, "wss://tracker.test/socket");
+    });
+    t.is(records[1].direction, "sent");
+    t.is(records[1].opcode, 1);
+    t.is(records[1].size, 5);
+    t.is(records[1].payload, "hello");
+    t.is(records[1].payload_truncated, 0);
+    t.is(records[2].payload, "AQID");
+    t.is(records[3].close_code, 1000);
+    t.is(records[3].close_reason, "done");
+    instrument.cleanup();
+    t.false(fakeBrowser.runtime.onMessage.hasListeners());
+    t.false(fakeBrowser.webRequest.onBeforeSendHeaders.hasListeners());
+  },
+);
+
+test.serial("truncates or leaves out payloads as configured", async t => {
+  const truncating = new WebSocketInstrument(dataReceiver, {
+    maxPayloadSize: 3,
+  });
+  truncating.run(1);
+  await fakeBrowser.replay([
+    webSocketEvent({ event: "open" }),
+    webSocketEvent({ event: "frame", opcode: 1, size: 5, payload: "hello" }),
+    // "ü" is encoded as two bytes, the second of which is cut off
+    webSocketEvent({ event: "frame", opcode: 1, size: 6, payload: "grüß" }),
+    webSocketEvent({ event: "frame", opcode: 2, size: 6, payload: "AQIDBAUG" }),
+  ]);
+  truncating.cleanup();
+  const withoutPayloads = new WebSocketInstrument(dataReceiver, {
+    savePayloads: false,
+  });
+  withoutPayloads.run(1);
+  await fakeBrowser.replay([
+    webSocketEvent({ event: "frame", opcode: 1, size: 5, payload: "hello" }),
+  ]);
+  withoutPayloads.cleanup();
+
+  const frames = dataReceiver
+    .getRecords("websocket_frames")
+    .filter(record => record.event === "frame");
+  t.deepEqual(frames.map(frame => [frame.payload, frame.payload_truncated]), [
+    ["hel", 1],
+    ["gr", 1],
+    ["AQID", 1],
+    [undefined, undefined],
+  ]);
+  t.is(frames[0].request_id, undefined);
+});
+
+test.serial("only records connections to the configured urls", async t => {
+  const instrument = new WebSocketInstrument(dataReceiver, {
+    urls: ["wss://example.com/*"],
+  });
+  instrument.run(1);
+  await fakeBrowser.replay([webSocketEvent({ event: "open" })]);
+  t.is(dataReceiver.getRecords("websocket_frames").length, 0);
+  instrument.cleanup();
+});
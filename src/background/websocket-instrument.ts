@@ -0,0 +1,200 @@
+import { DataReceiver } from "../lib/data-receiver";
+import {
+  validateWebSocketInstrumentConfig,
+  WebSocketInstrumentConfig,
+} from "../lib/instrument-config";
+import { urlMatchesPatterns } from "../lib/match-patterns";
+import { boolToInt, escapeString, truncateUtf8 } from "../lib/string-utils";
+import { WebSocketFrame } from "../schema";
+import { WebRequestOnBeforeSendHeadersEventDetails } from "../types/browser-web-request-event-details";
+import {
+  getCurrentVisitId,
+  NavigationInstrument,
+} from "./navigation-instrument";
+
+interface Handshake {
+  tabId: number;
+  url: string;
+  requestId: string;
+  timeStamp: number;
+}
+
+/**
+ * Handshakes are only linked to connections that open within this time
+ */
+const maxHandshakeAgeMs = 30000;
+
+/**
+ * The scheme of WebSocket urls is reported as either ws(s) or http(s)
+ * depending on the Firefox version, so both are compared as http(s)
+ *
+ * @param url
+ */
+const normalizeWebSocketUrl = (url: string) =>
+  url.replace(/^ws(s?):/, "http$1:").split("#")[0];
+
+/**
+ * Records WebSocket connections and their frames to the `websocket_frames`
+ * table. The events are observed by the page script, which must be injected
+ * with `recordWebSocketFrames` enabled, and are linked to the handshake
+ * request seen by webRequest.
+ */
+export class WebSocketInstrument {
+  private readonly dataReceiver: DataReceiver;
+  private readonly config: WebSocketInstrumentConfig;
+  private readonly navigationInstrument: NavigationInstrument;
+  private handshakes: Handshake[] = [];
+  private connections: {
+    [connectionKey: string]: { requestId?: string };
+  } = {};
+  private onBeforeSendHeadersListener;
+  private onMessageListener;
+
+  constructor(
+    dataReceiver: DataReceiver,
+    config: WebSocketInstrumentConfig = {},
+    navigationInstrument?: NavigationInstrument,
+  ) {
+    this.dataReceiver = dataReceiver;
+    this.config = validateWebSocketInstrumentConfig(config);
+    this.navigationInstrument = navigationInstrument;
+  }
+
+  public run(crawlID) {
+    this.onBeforeSendHeadersListener = (
+      details: WebRequestOnBeforeSendHeadersEventDetails,
+    ) => {
+      this.handshakes = this.handshakes.filter(
+        handshake =>
+          details.timeStamp - handshake.timeStamp <= maxHandshakeAgeMs,
+      );
+      this.handshakes.push({
+        tabId: details.tabId,
+        url: normalizeWebSocketUrl(details.url),
+        requestId: details.requestId,
+        timeStamp: details.timeStamp,
+      });
+    };
+    browser.webRequest.onBeforeSendHeaders.addListener(
+      this.onBeforeSendHeadersListener,
+      { urls: this.config.urls, types: ["websocket"] },
+    );
+
+    this.onMessageListener = (msg, sender) => {
+      if (
+        msg.namespace &&
+        msg.namespace === "javascript-instrumentation" &&
+        msg.type === "logWebSocketEvent" &&
+        sender.tab &&
+        urlMatchesPatterns(msg.data.url, this.config.urls)
+      ) {
+        this.logWebSocketEvent(msg.data, sender, crawlID);
+      }
+    };
+    browser.runtime.onMessage.addListener(this.onMessageListener);
+  }
+
+  public cleanup() {
+    if (this.onBeforeSendHeadersListener) {
+      browser.webRequest.onBeforeSendHeaders.removeListener(
+        this.onBeforeSendHeadersListener,
+      );
+    }
+    if (this.onMessageListener) {
+      browser.runtime.onMessage.removeListener(this.onMessageListener);
+    }
+  }
+
+  private logWebSocketEvent(data, sender, crawlID) {
+    const tabId = sender.tab.id;
+    const connectionKey =
+      tabId + " " + sender.frameId + " " + data.connectionId;
+    const timeStamp = new Date(data.timeStamp).getTime();
+    if (data.event === "open" || !this.connections[connectionKey]) {
+      this.connections[connectionKey] = {
+        requestId: this.takeHandshakeRequestId(tabId, data.url, timeStamp),
+      };
+    }
+    const connection = this.connections[connectionKey];
+    // Errors are always followed by a close event
+    if (data.event === "close") {
+      delete this.connections[connectionKey];
+    }
+
+    const update = {} as WebSocketFrame;
+    update.crawl_id = crawlID;
+    update.visit_id = getCurrentVisitId(this.navigationInstrument, tabId);
+    update.tab_id = tabId;
+    update.frame_id = sender.frameId;
+    update.request_id = connection.requestId;
+    update.connection_id = escapeString(data.connectionId);
+    update.url = escapeString(data.url);
+    update.event = data.event;
+    if (data.event === "frame") {
+      update.direction = data.direction;
+      update.opcode = data.opcode;
+      update.size = data.size;
+      if (this.config.savePayloads) {
+        this.setPayload(update, data);
+      }
+    }
+    if (data.event === "close") {
+      update.close_code = data.closeCode;
+      update.close_reason = escapeString(data.closeReason);
+    }
+    update.time_stamp = data.timeStamp;
+    this.dataReceiver.saveRecord("websocket_frames", update);
+  }
+
+  /**
+   * Truncates text payloads to the whole characters within maxPayloadSize
+   * bytes of UTF-8, and binary payloads (which arrive base64-encoded) to
+   * whole base64 groups of at most that many bytes
+   *
+   * @param update
+   * @param data
+   */
+  private setPayload(update: WebSocketFrame, data) {
+    const maxPayloadSize = this.config.maxPayloadSize;
+    let payload = data.payload;
+    let truncated = false;
+    if (data.opcode === 1) {
+      if (maxPayloadSize !== undefined) {
+        payload = truncateUtf8(payload, maxPayloadSize);
+        truncated = payload.length < data.payload.length;
+      }
+      payload = escapeString(payload);
+    } else {
+      const maxLength = Math.floor(maxPayloadSize / 3) * 4;
+      if (maxPayloadSize !== undefined && payload.length > maxLength) {
+        payload = payload.slice(0, maxLength);
+        truncated = true;
+      }
+    }
+    update.payload = payload;
+    update.payload_truncated = boolToInt(truncated);
+  }
+
+  /**
+   * Returns the request id of the earliest handshake for this url in the
+   * tab, and forgets it so that it is not linked to another connection
+   *
+   * @param tabId
+   * @param url
+   * @param timeStamp
+   */
+  private takeHandshakeRequestId(tabId: number, url: string, timeStamp) {
+    url = normalizeWebSocketUrl(url);
+    const handshake = this.handshakes.find(
+      candidate =>
+        candidate.tabId === tabId &&
+        candidate.url === url &&
+        Math.abs(timeStamp - candidate.timeStamp) <= maxHandshakeAgeMs,
+    );
+    if (!handshake) {
+      return undefined;
+    }
+    this.handshakes.splice(this.handshakes.indexOf(handshake), 1);
+    return handshake.requestId;
+  }
+}
@@ -1,8 +1,47 @@
 import { pageScript } from "./javascript-instrument-page-scope";
+import {
+  defaultJavascriptInstrumentSpec,
+  JavascriptInstrumentSpec,
+  PageScriptOptions,
+} from "./javascript-instrument-spec";
 
-function getPageScriptAsString() {
+function getPageScriptAsString(
+  instrumentationSpec: JavascriptInstrumentSpec,
+  options: PageScriptOptions,
+) {
   // return a string
-  return "(" + pageScript + "());";
+  return (
+    "(" +
+    pageScript +
+    "(" +
+    JSON.stringify(instrumentationSpec) +
+    "," +
+    JSON.stringify(options) +
+    "));"
+  );
+}
+
+function validateInstrumentationSpec(
+  instrumentationSpec: JavascriptInstrumentSpec,
+) {
+  if (!Array.isArray(instrumentationSpec)) {
+    throw new Error(
+      "Invalid JavaScript instrumentation spec: expected an array of entries",
+    );
+  }
+  instrumentationSpec.forEach(function(entry, index) {
+    if (
+      !entry ||
+      typeof entry.object !== "string" ||
+      !/^window(\.[^.]+)*$/.test(entry.object)
+    ) {
+      throw new Error(
+        "Invalid JavaScript instrumentation spec: entry " +
+          index +
+          ' needs an object path starting with "window"',
+      );
+    }
+  });
 }
 
 function insertScript(text, data) {
@@ -43,8 +82,21 @@ document.addEventListener(event_id.toString(), function(e: CustomEvent) {
   }
 });
 
-export function injectJavascriptInstrumentPageScript(testing = false) {
-  insertScript(getPageScriptAsString(), {
+/**
+ * Injects the page script that instruments the JavaScript APIs declared in
+ * the instrumentation spec
+ *
+ * @param testing
+ * @param instrumentationSpec Defaults to defaultJavascriptInstrumentSpec
+ * @param options Further instrumentation to install, see PageScriptOptions
+ */
+export function injectJavascriptInstrumentPageScript(
+  testing = false,
+  instrumentationSpec: JavascriptInstrumentSpec = defaultJavascriptInstrumentSpec,
+  options: PageScriptOptions = {},
+) {
+  validateInstrumentationSpec(instrumentationSpec);
+  insertScript(getPageScriptAsString(instrumentationSpec, options), {
     event_id,
     testing,
   });
@@ -0,0 +1,699 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { JSDOM, VirtualConsole } from "jsdom";
+import { settle } from "../testing/fake-browser";
+import { pageScript } from "./javascript-instrument-page-scope";
+import {
+  defaultJavascriptInstrumentSpec,
+  JavascriptInstrumentSpec,
+  PageScriptOptions,
+} from "./javascript-instrument-spec";
+
+const eventId = "openwpm-test";
+
+// The page script skips the first three stack frames, which are its own
+const ownStackFrames = [
+  "getStackTrace@moz-extension://openwpm/content.js:1:1",
+  "getOriginatingScriptContext@moz-extension://openwpm/content.js:2:1",
+  "instrumentFunction/<@moz-extension://openwpm/content.js:3:1",
+];
+
+/**
+ * Loads a page in jsdom, runs the setup script and then injects the page
+ * script the way the content script does. Returns the page window along with
+ * the messages the page script dispatches.
+ *
+ * Stacks have the Firefox format that the page script parses, and are made
+ * up of the page script's own frames followed by `page.callerFrames`.
+ *
+ * The page script module is excluded from nyc instrumentation (see
+ * package.json), as coverage counters do not survive stringifying it.
+ *
+ * @param instrumentationSpec
+ * @param setup Script run before the instrumentation is injected
+ * @param options
+ */
+const loadPage = (
+  instrumentationSpec: JavascriptInstrumentSpec,
+  setup,
+  options: PageScriptOptions = {},
+) => {
+  const dom = new JSDOM(
+    "<!DOCTYPE html><body><div id='container'><p>one</p>" +
+      "<p id='target' class='highlight'>two</p></div></body>",
+    {
+      runScripts: "dangerously",
+      url: "https://example.com/",
+      virtualConsole: new VirtualConsole(),
+    },
+  );
+  const window = dom.window;
+  const page = {
+    window,
+    messages: [],
+    callerFrames: ["track@https://example.com/app.js:10:5"],
+  };
+
+  window.document.addEventListener(eventId, event => {
+    const detail = event.detail;
+    page.messages.push(...(Array.isArray(detail) ? detail : [detail]));
+  });
+
+  const OriginalError = window.Error;
+  window.Error = function() {
+    const error = new OriginalError();
+    error.stack = ownStackFrames.concat(page.callerFrames).join("\n") + "\n";
+    return error;
+  };
+
+  window.eval(setup);
+
+  const script = window.document.createElement("script");
+  script.setAttribute("data-event-id", eventId);
+  script.setAttribute("data-testing", "true");
+  script.text =
+    "(" +
+    pageScript +
+    "(" +
+    JSON.stringify(instrumentationSpec) +
+    "," +
+    JSON.stringify(options) +
+    "));";
+  window.document.documentElement.appendChild(script);
+  return page;
+};
+
+// Messages are sent in debounced batches
+const waitForMessages = () => settle(150);
+
+// Some messages are only sent once blobs or responses are read, which takes
+// a while when many pages are loaded at once
+const waitForMessageCount = async (page, count) => {
+  for (let i = 0; i < 40 && page.messages.length < count; i++) {
+    await settle(50);
+  }
+  await waitForMessages();
+};
+
+test("logs calls and gets along with the calling script", async t => {
+  const page = loadPage(
+    [{ object: "window.testObject" }],
+    "window.testObject = { value: 1, method: function(a) { return a + 1; } };",
+  );
+  t.is(page.window.testObject.method(1), 2);
+  t.is(page.window.testObject.value, 1);
+  await waitForMessages();
+
+  const context = {
+    scriptUrl: "https://example.com/app.js",
+    scriptLine: "10",
+    scriptCol: "5",
+    funcName: "track",
+    scriptLocEval: "",
+    callStack: "",
+  };
+  t.deepEqual(page.messages, [
+    {
+      type: "logCall",
+      content: {
+        operation: "call",
+        symbol: "window.testObject.method",
+        args: [1],
+        value: "",
+        ...context,
+      },
+    },
+    {
+      type: "logValue",
+      content: {
+        operation: "get",
+        symbol: "window.testObject.value",
+        value: 1,
+        ...context,
+      },
+    },
+  ]);
+});
+
+test("parses eval and Function stack frames", async t => {
+  const page = loadPage(
+    [{ object: "window.testObject", logSettings: { logCallStack: true } }],
+    "window.testObject = { value: 1 };",
+  );
+  page.callerFrames = [
+    "@https://example.com/app.js line 2 > eval line 1 > eval:3:7",
+    "load@https://example.com/app.js:2:1",
+  ];
+  page.window.testObject.value;
+  page.callerFrames = ["f@https://example.com/app.js line 234 > Function:1:20"];
+  page.window.testObject.value;
+  await waitForMessages();
+
+  const [evalGet, functionGet] = page.messages.map(message => message.content);
+  t.is(evalGet.scriptUrl, "https://example.com/app.js");
+  t.is(evalGet.scriptLocEval, "line 2 > eval line 1 > eval");
+  t.is(evalGet.scriptLine, "3");
+  t.is(evalGet.scriptCol, "7");
+  t.is(evalGet.funcName, "");
+  t.is(
+    evalGet.callStack,
+    "@https://example.com/app.js line 2 > eval line 1 > eval:3:7\n" +
+      "load@https://example.com/app.js:2:1",
+  );
+  t.is(functionGet.scriptUrl, "https://example.com/app.js");
+  t.is(functionGet.scriptLocEval, "line 234 > Function");
+  t.is(functionGet.scriptLine, "1");
+  t.is(functionGet.scriptCol, "20");
+  t.is(functionGet.funcName, "f");
+});
+
+test("returns an empty context for stacks it can not parse", async t => {
+  const page = loadPage(
+    [{ object: "window.testObject" }],
+    "window.testObject = { value: 1 };",
+  );
+  page.callerFrames = [];
+  page.window.testObject.value;
+  await waitForMessages();
+  t.is(page.messages[0].content.scriptUrl, "");
+  t.is(page.messages[0].content.scriptLine, "");
+});
+
+test("prevents sets of functions and objects when configured", async t => {
+  const page = loadPage(
+    [{ object: "window.testObject", logSettings: { preventSets: true } }],
+    "window.testObject = {" +
+      " method: function() { return 'original'; }," +
+      " nested: { a: 1 }," +
+      " value: 1" +
+      "};",
+  );
+  page.window.eval("testObject.method = function() { return 'replaced'; };");
+  page.window.eval("testObject.value = 2;");
+  t.is(page.window.eval("testObject.method()"), "original");
+  t.is(page.window.eval("testObject.value"), 2);
+  await waitForMessages();
+
+  t.deepEqual(
+    page.messages.map(message => [
+      message.content.operation,
+      message.content.symbol,
+    ]),
+    [
+      ["set(prevented)", "window.testObject.method"],
+      ["set", "window.testObject.value"],
+      ["call", "window.testObject.method"],
+      ["get", "window.testObject.value"],
+    ],
+  );
+});
+
+test("instruments nested objects up to the recursion depth", async t => {
+  const page = loadPage(
+    [
+      {
+        object: "window.testObject",
+        logSettings: { recursive: true, depth: 1 },
+      },
+    ],
+    "window.testObject = { level1: { level2: { level3: { value: 1 } } } };",
+  );
+  t.is(page.window.eval("testObject.level1.level2.level3.value"), 1);
+  await waitForMessages();
+
+  // Gets of instrumented objects are not logged, and level2 is beyond the
+  // depth limit so its properties are not instrumented
+  t.deepEqual(page.messages.map(message => message.content.symbol), [
+    "window.testObject.level1.level2",
+  ]);
+  t.is(
+    page.messages[0].content.value,
+    JSON.stringify({ level3: { value: 1 } }),
+  );
+});
+
+test("stops logging a symbol after 500 calls from the same script", async t => {
+  const page = loadPage(
+    [{ object: "window.testObject" }],
+    "window.testObject = { method: function() {} };",
+  );
+  page.window.eval("for (var i = 0; i < 600; i++) { testObject.method(); }");
+  page.callerFrames = ["track@https://example.com/other.js:1:1"];
+  page.window.eval("testObject.method();");
+  await waitForMessages();
+
+  const scriptUrls = page.messages.map(message => message.content.scriptUrl);
+  t.is(scriptUrls.length, 501);
+  t.is(scriptUrls[500], "https://example.com/other.js");
+});
+
+test("serializes cycles, DOM elements and functions in arguments", async t => {
+  const page = loadPage(
+    [{ object: "window.testObject" }],
+    "window.testObject = { method: function() {} };",
+  );
+  page.window.eval(
+    "var cyclic = { name: 'a' };" +
+      "cyclic.self = cyclic;" +
+      "testObject.method(" +
+      " cyclic," +
+      " document.getElementById('target')," +
+      " function() {}," +
+      " null" +
+      ");",
+  );
+  await waitForMessages();
+
+  t.deepEqual(page.messages[0].content.args, [
+    JSON.stringify({ name: "a", self: "object" }),
+    JSON.stringify("BODY/DIV[1,container,]/P[2,target,highlight]"),
+    "FUNCTION",
+    "null",
+  ]);
+});
+
+test("serializes functions as strings when configured", async t => {
+  const page = loadPage(
+    [
+      {
+        object: "window.testObject",
+        logSettings: { logFunctionsAsStrings: true },
+      },
+    ],
+    "window.testObject = { method: function() {} };",
+  );
+  page.window.eval("testObject.method(function callback() { return 1; });");
+  await waitForMessages();
+
+  t.deepEqual(page.messages[0].content.args, [
+    "function callback() { return 1; }",
+  ]);
+});
+
+test("exposes instrumentObject to testing pages", async t => {
+  const page = loadPage([], "window.lateObject = { value: 1 };");
+  page.window.eval("instrumentObject(window.lateObject, 'lateObject');");
+  t.is(page.window.eval("lateObject.value"), 1);
+  await waitForMessages();
+  t.is(page.messages[0].content.symbol, "lateObject.value");
+});
+
+test("summarizes request bodies in arguments", async t => {
+  const page = loadPage(
+    [{ object: "window.testObject" }],
+    "window.testObject = { method: function() {} };",
+  );
+  page.window.eval(
+    "var formData = new FormData();" +
+      "formData.append('a', '1');" +
+      "formData.append('file', new Blob(['abc'], { type: 'text/plain' }), 'f.txt');" +
+      "testObject.method(" +
+      " formData," +
+      " new Blob(['abcd'], { type: 'text/plain' })," +
+      " new URLSearchParams('a=1&b=2')," +
+      " new Uint8Array(4)" +
+      ");",
+  );
+  await waitForMessages();
+
+  t.deepEqual(page.messages[0].content.args, [
+    JSON.stringify([
+      ["a", "1"],
+      ["file", { name: "f.txt", size: 3, type: "text/plain" }],
+    ]),
+    JSON.stringify({ size: 4, type: "text/plain" }),
+    JSON.stringify("a=1&b=2"),
+    JSON.stringify({ byteLength: 4 }),
+  ]);
+});
+
+test("instruments XMLHttpRequest by default", async t => {
+  const page = loadPage(
+    defaultJavascriptInstrumentSpec.filter(
+      entry => entry.object === "window.XMLHttpRequest.prototype",
+    ),
+    "",
+  );
+  page.window.eval(
+    "var xhr = new XMLHttpRequest();" +
+      "xhr.open('POST', 'https://tracker.test/collect');" +
+      "xhr.setRequestHeader('Content-Type', 'text/plain');" +
+      // Not opened, so nothing is actually sent
+      "try { new XMLHttpRequest().send(new URLSearchParams('id=1')); }" +
+      "catch (error) {}",
+  );
+  await waitForMessages();
+
+  t.deepEqual(
+    page.messages.map(message => [
+      message.content.symbol,
+      message.content.args,
+    ]),
+    [
+      ["XMLHttpRequest.open", ["POST", "https://tracker.test/collect"]],
+      ["XMLHttpRequest.setRequestHeader", ["Content-Type", "text/plain"]],
+      ["XMLHttpRequest.send", [JSON.stringify("id=1")]],
+    ],
+  );
+  t.is(
+    page.messages[0].content.callStack,
+    "track@https://example.com/app.js:10:5",
+  );
+});
+
+test("instruments constructors", async t => {
+  const page = loadPage(
+    [{ object: "window", logSettings: { propertiesToInstrument: ["Socket"] } }],
+    "window.Socket = class { constructor(url) { this.url = url; } };",
+  );
+  t.true(
+    page.window.eval(
+      "var socket = new Socket('wss://tracker.test/');" +
+        "socket instanceof Socket && socket.url === 'wss://tracker.test/'",
+    ),
+  );
+  t.true(
+    page.window.eval(
+      "class TrackingSocket extends Socket {}" +
+        "new TrackingSocket('wss://tracker.test/') instanceof TrackingSocket",
+    ),
+  );
+  await waitForMessages();
+
+  t.deepEqual(
+    page.messages.map(message => [
+      message.content.symbol,
+      message.content.args,
+    ]),
+    [
+      ["window.Socket", ["wss://tracker.test/"]],
+      ["window.Socket", ["wss://tracker.test/"]],
+    ],
+  );
+});
+
+test("skips the frames of spec wrappers in request call stacks", async t => {
+  const page = loadPage(
+    [{ object: "window", logSettings: { propertiesToInstrument: ["fetch"] } }],
+    "window.Request = class {};" +
+      "window.fetch = function() { return Promise.resolve(); };",
+    { recordRequestCallStacks: true },
+  );
+  // The spec wraps the function that records the call stack
+  page.callerFrames = [
+    "instrumentFunction/wrapper@moz-extension://openwpm/content.js:4:1",
+    "track@https://example.com/app.js:10:5",
+  ];
+  page.window.eval("fetch('https://tracker.test/fetch');");
+  await waitForMessages();
+
+  const [callStackMessage] = page.messages.filter(
+    message => message.type === "logRequestCallStack",
+  );
+  t.deepEqual(callStackMessage.content, {
+    url: "https://tracker.test/fetch",
+    callStack: "track@https://example.com/app.js:10:5",
+  });
+});
+
+test("keeps the identity and statics of functions of the default spec", t => {
+  const page = loadPage(
+    defaultJavascriptInstrumentSpec,
+    "window.fetch = function() { return Promise.resolve(); };",
+  );
+  t.true(page.window.eval("WebSocket === WebSocket && fetch === fetch"));
+  t.is(page.window.eval("WebSocket.OPEN"), 1);
+  t.is(page.window.eval("WebSocket.CLOSED"), 3);
+  t.true(
+    page.window.eval(
+      "XMLHttpRequest.prototype.open === XMLHttpRequest.prototype.open",
+    ),
+  );
+});
+
+test("records the call stacks of requests initiated by scripts", async t => {
+  const page = loadPage(
+    [],
+    // Stand in for the network APIs, which would actually send requests
+    "window.Request = class { constructor(url) { this.url = url; } };" +
+      "window.fetch = function() { return Promise.resolve(); };" +
+      "XMLHttpRequest.prototype.send = function() {};" +
+      "Navigator.prototype.sendBeacon = function() { return true; };",
+    { recordRequestCallStacks: true },
+  );
+  page.window.eval(
+    "fetch('/api?q=1');" +
+      "fetch(new Request('https://tracker.test/fetch'));" +
+      "var xhr = new XMLHttpRequest();" +
+      "xhr.open('POST', 'https://tracker.test/xhr');" +
+      "xhr.send('data');" +
+      "navigator.sendBeacon('https://tracker.test/beacon', 'data');" +
+      "new Image().src = 'https://tracker.test/pixel.gif';" +
+      "var script = document.createElement('script');" +
+      "script.src = 'https://tracker.test/lib.js';" +
+      "document.body.appendChild(script);" +
+      "document.body.insertBefore(document.createElement('script'), null);",
+  );
+  await waitForMessages();
+
+  // The page script first announces that it records call stacks
+  const [announcement, ...callStackMessages] = page.messages;
+  t.is(announcement.type, "recordingRequestCallStacks");
+  t.true(
+    callStackMessages.every(message => message.type === "logRequestCallStack"),
+  );
+  t.deepEqual(
+    callStackMessages.map(message => message.content),
+    [
+      "https://example.com/api?q=1",
+      "https://tracker.test/fetch",
+      "https://tracker.test/xhr",
+      "https://tracker.test/beacon",
+      "https://tracker.test/pixel.gif",
+      "https://tracker.test/lib.js",
+    ].map(url => ({ url, callStack: "track@https://example.com/app.js:10:5" })),
+  );
+});
+
+test("records WebSocket connections and frames", async t => {
+  const page = loadPage(
+    [],
+    // Stands in for WebSocket, which would actually connect
+    "window.WebSocket = class extends EventTarget {" +
+      " constructor(url) { super(); this.url = url; this.readyState = 0; }" +
+      " send() {}" +
+      "};" +
+      "WebSocket.OPEN = 1;",
+    { recordWebSocketFrames: true },
+  );
+  page.window.eval(
+    "var socket = new WebSocket('wss://tracker.test/socket');" +
+      "socket.readyState = WebSocket.OPEN;" +
+      "socket.dispatchEvent(new Event('open'));" +
+      "socket.send('héllo');" +
+      "socket.send(new Uint8Array([1, 2, 3]));" +
+      "socket.dispatchEvent(" +
+      " new MessageEvent('message', { data: new Blob([new Uint8Array([4])]) })" +
+      ");" +
+      "socket.dispatchEvent(" +
+      " new CloseEvent('close', { code: 1000, reason: 'done' })" +
+      ");",
+  );
+  t.true(page.window.eval("socket instanceof WebSocket"));
+  await waitForMessageCount(page, 5);
+
+  t.true(page.messages.every(message => message.type === "logWebSocketEvent"));
+  const events = page.messages.map(message => message.content);
+  t.true(events.every(event => event.connectionId === events[0].connectionId));
+  t.true(events.every(event => event.url === "wss://tracker.test/socket"));
+  t.deepEqual(
+    events.map(event => [
+      event.event,
+      event.direction,
+      event.opcode,
+      event.size,
+      event.payload,
+    ]),
+    [
+      ["open", undefined, undefined, undefined, undefined],
+      ["frame", "sent", 1, 6, "héllo"],
+      ["frame", "sent", 2, 3, "AQID"],
+      ["frame", "received", 2, 1, "BA=="],
+      ["close", undefined, undefined, undefined, undefined],
+    ],
+  );
+  t.is(events[4].closeCode, 1000);
+  t.is(events[4].closeReason, "done");
+});
+
+const storageContext = {
+  scriptUrl: "https://example.com/app.js",
+  scriptLine: "10",
+  scriptCol: "5",
+  funcName: "track",
+  scriptLocEval: "",
+  callStack: "track@https://example.com/app.js:10:5",
+};
+
+test("records storage access along with its area", async t => {
+  const page = loadPage([], "", { recordStorageAccess: true });
+  page.window.eval(
+    "localStorage.setItem('uid', 'abc123');" +
+      "sessionStorage.setItem('uid', 'ü');" +
+      "localStorage.getItem('uid');" +
+      "localStorage.getItem('missing');" +
+      "sessionStorage.removeItem('uid');" +
+      "localStorage.clear();" +
+      "document.cookie = 'id=42; path=/; max-age=60';" +
+      "document.cookie = 'flag';",
+  );
+  t.is(page.window.document.cookie, "id=42; flag");
+  await waitForMessages();
+
+  t.true(page.messages.every(message => message.type === "logStorageAccess"));
+  t.deepEqual(page.messages.map(message => message.content), [
+    {
+      area: "localStorage",
+      operation: "set",
+      key: "uid",
+      valueSize: 6,
+      value: "abc123",
+      ...storageContext,
+    },
+    {
+      area: "sessionStorage",
+      operation: "set",
+      key: "uid",
+      valueSize: 2,
+      value: "ü",
+      ...storageContext,
+    },
+    {
+      area: "localStorage",
+      operation: "get",
+      key: "uid",
+      valueSize: 6,
+      value: "abc123",
+      ...storageContext,
+    },
+    {
+      area: "localStorage",
+      operation: "get",
+      key: "missing",
+      ...storageContext,
+    },
+    {
+      area: "sessionStorage",
+      operation: "remove",
+      key: "uid",
+      ...storageContext,
+    },
+    { area: "localStorage", operation: "clear", ...storageContext },
+    {
+      area: "cookie",
+      operation: "set",
+      key: "id",
+      valueSize: 2,
+      value: "42",
+      ...storageContext,
+    },
+    {
+      area: "cookie",
+      operation: "set",
+      key: "",
+      valueSize: 4,
+      value: "flag",
+      ...storageContext,
+    },
+  ]);
+});
+
+test("records IndexedDB and Cache API access", async t => {
+  const page = loadPage(
+    [],
+    // jsdom implements neither IndexedDB nor the Cache API
+    "window.IDBRequest = class extends EventTarget {};" +
+      "const respond = result => {" +
+      " const request = new IDBRequest();" +
+      " setTimeout(() => {" +
+      "  request.result = result;" +
+      "  request.dispatchEvent(new Event('success'));" +
+      " });" +
+      " return request;" +
+      "};" +
+      "window.IDBFactory = class { open() { return respond({}); } };" +
+      "window.IDBObjectStore = class {" +
+      " constructor() {" +
+      "  this.name = 'store';" +
+      "  this.transaction = { db: { name: 'db' } };" +
+      "  this.entries = new Map();" +
+      " }" +
+      " put(value, key) { this.entries.set(String(key), value); return respond(key); }" +
+      " get(key) { return respond(this.entries.get(String(key))); }" +
+      " delete(key) { this.entries.delete(String(key)); return respond(); }" +
+      " clear() { this.entries.clear(); return respond(); }" +
+      "};" +
+      "window.FakeResponse = class {" +
+      " constructor(size) { this.size = size; }" +
+      " clone() { return new FakeResponse(this.size); }" +
+      " arrayBuffer() { return Promise.resolve(new ArrayBuffer(this.size)); }" +
+      "};" +
+      "window.Cache = class {" +
+      " constructor() { this.entries = new Map(); }" +
+      " put(url, response) { this.entries.set(url, response); return Promise.resolve(); }" +
+      " match(url) { return Promise.resolve(this.entries.get(url)); }" +
+      " delete(url) { return Promise.resolve(this.entries.delete(url)); }" +
+      "};" +
+      "window.CacheStorage = class {" +
+      " open() { return Promise.resolve(new Cache()); }" +
+      "};",
+    { recordStorageAccess: true },
+  );
+  page.window.eval(
+    "new IDBFactory().open('db');" +
+      "const store = new IDBObjectStore();" +
+      "store.put({ uid: 'abc' }, [1, 2]);" +
+      "store.get([1, 2]);" +
+      "store.delete([1, 2]);" +
+      "store.clear();" +
+      "new CacheStorage().open('assets').then(cache =>" +
+      " cache.put('/app.js', new FakeResponse(1024))" +
+      "  .then(() => cache.match('/app.js'))" +
+      "  .then(() => cache.delete('/app.js'))" +
+      ");",
+  );
+  await waitForMessageCount(page, 9);
+
+  t.true(
+    page.messages.every(
+      message => message.content.scriptUrl === "https://example.com/app.js",
+    ),
+  );
+  // Each area is in order, but the IndexedDB requests succeed asynchronously
+  const accessesTo = area =>
+    page.messages
+      .map(message => message.content)
+      .filter(access => access.area === area)
+      .map(access => [
+        access.operation,
+        access.name,
+        access.key,
+        access.valueSize,
+        access.value,
+      ]);
+  t.deepEqual(accessesTo("indexedDB"), [
+    ["open", "db", undefined, undefined, undefined],
+    ["remove", "db/store", "[1,2]", undefined, undefined],
+    ["clear", "db/store", undefined, undefined, undefined],
+    ["set", "db/store", "[1,2]", 13, '{"uid":"abc"}'],
+    ["get", "db/store", "[1,2]", 13, '{"uid":"abc"}'],
+  ]);
+  // Matches are logged once the size of the response is read, after the
+  // delete that the page chained onto the match
+  t.deepEqual(accessesTo("cache"), [
+    ["open", "assets", undefined, undefined, undefined],
+    ["set", "assets", "https://example.com/app.js", 1024, undefined],
+    ["remove", "assets", "https://example.com/app.js", undefined, undefined],
+    ["get", "assets", "https://example.com/app.js", 1024, undefined],
+  ]);
+});
@@ -3,6 +3,12 @@
 
 // code below is not a content script: no Firefox APIs should be used
 
+import {
+  JavascriptInstrumentSpec,
+  LogSettings,
+  PageScriptOptions,
+} from "./javascript-instrument-spec";
+
 declare global {
   interface Object {
     getPropertyDescriptor(subject: any, name: any): PropertyDescriptor;
@@ -15,7 +21,10 @@ declare global {
   }
 }
 
-export const pageScript = function() {
+export const pageScript = function(
+  instrumentationSpec: JavascriptInstrumentSpec,
+  options: PageScriptOptions,
+) {
   // from Underscore v1.6.0
   function debounce(func, wait, immediate = false) {
     let timeout, args, context, timestamp, result;
@@ -73,6 +82,16 @@ export const pageScript = function() {
     };
   })();
 
+  // messages the injected script without queueing, for messages that need
+  // to arrive in time to be correlated with other events
+  function sendImmediately(msgType, msg) {
+    document.dispatchEvent(
+      new CustomEvent(event_id, {
+        detail: { type: msgType, content: msg },
+      }),
+    );
+  }
+
   const event_id = document.currentScript.getAttribute("data-event-id");
 
   /*
@@ -120,6 +139,42 @@ export const pageScript = function() {
     }
   }
 
+  // Returns a JSON-serializable summary of objects whose contents are not
+  // enumerable properties (and would thus be serialized as "{}"), such as
+  // the bodies and requests passed to network APIs. Binary data is only
+  // summarized by its size. Other values are returned as is.
+  function toSerializable(value) {
+    if (typeof Request !== "undefined" && value instanceof Request) {
+      return {
+        url: value.url,
+        method: value.method,
+        headers: Array.from((value.headers as any).entries()),
+      };
+    }
+    if (typeof Headers !== "undefined" && value instanceof Headers) {
+      return Array.from((value as any).entries());
+    }
+    if (typeof FormData !== "undefined" && value instanceof FormData) {
+      return Array.from((value as any).entries());
+    }
+    if (
+      typeof URLSearchParams !== "undefined" &&
+      value instanceof URLSearchParams
+    ) {
+      return value.toString();
+    }
+    if (typeof File !== "undefined" && value instanceof File) {
+      return { name: value.name, size: value.size, type: value.type };
+    }
+    if (typeof Blob !== "undefined" && value instanceof Blob) {
+      return { size: value.size, type: value.type };
+    }
+    if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+      return { byteLength: value.byteLength };
+    }
+    return value;
+  }
+
   // Helper for JSONifying objects
   function serializeObject(object, stringifyFunctions = false) {
     // Handle permissions errors
@@ -160,6 +215,11 @@ export const pageScript = function() {
             return getPathToDomElement(value);
           }
 
+          const serializable = toSerializable(value);
+          if (serializable !== value) {
+            return serializable;
+          }
+
           // Prevent serialization cycles
           if (key === "" || seenObjects.indexOf(value) < 0) {
             seenObjects.push(value);
@@ -205,7 +265,12 @@ export const pageScript = function() {
       : split;
   };
 
-  function getOriginatingScriptContext(getCallStack = false) {
+  // Wrappers that are nested inside another instrumentation wrapper skip the
+  // frames of the wrappers around them, see `wrapperDepth`
+  function getOriginatingScriptContext(
+    getCallStack = false,
+    skippedFrames = 0,
+  ) {
     const trace = getStackTrace()
       .trim()
       .split("\n");
@@ -218,11 +283,11 @@ export const pageScript = function() {
       scriptLocEval: "",
       callStack: "",
     };
-    if (trace.length < 4) {
+    if (trace.length < 4 + skippedFrames) {
       return empty_context;
     }
     // 0, 1 and 2 are OpenWPM's own functions (e.g. getStackTrace), skip them.
-    const callSite = trace[3];
+    const callSite = trace[3 + skippedFrames];
     if (!callSite) {
       return empty_context;
     }
@@ -262,7 +327,7 @@ export const pageScript = function() {
         scriptLocEval,
         callStack: getCallStack
           ? trace
-              .slice(3)
+              .slice(3 + skippedFrames)
               .join("\n")
               .trim()
           : "",
@@ -292,6 +357,10 @@ export const pageScript = function() {
   // Prevent logging of gets arising from logging
   let inLog = false;
 
+  // Number of instrumentation wrappers that the current call passes through,
+  // as the storage wrappers are in turn wrapped by the instrumentation spec
+  let wrapperDepth = 0;
+
   // For gets, sets, etc. on a single value
   function logValue(
     instrumentedVariableName,
@@ -423,16 +492,6 @@ export const pageScript = function() {
     return typeof property === "object";
   }
 
-  interface LogSettings {
-    propertiesToInstrument?: string[];
-    excludedProperties?: string[];
-    logCallStack?: boolean;
-    logFunctionsAsStrings?: boolean;
-    preventSets?: boolean;
-    recursive?: boolean;
-    depth?: number;
-  }
-
   function instrumentObject(object, objectName, logSettings: LogSettings = {}) {
     // Use for objects or object prototypes
     //
@@ -533,8 +592,11 @@ export const pageScript = function() {
   // This helper function returns a wrapper around `func` which logs calls
   // to `func`. `objectName` and `methodName` are used strictly to identify
   // which object method `func` is coming from in the logs
+  // Constructors (eg WebSocket) are supported too: `new` calls are passed
+  // on as such, instances pass `instanceof` checks against the wrapper and
+  // static properties (eg WebSocket.OPEN) are inherited from `func`.
   function instrumentFunction(objectName, methodName, func, logSettings) {
-    return function() {
+    const wrapper = function() {
       const callContext = getOriginatingScriptContext(
         !!logSettings.logCallStack,
       );
@@ -544,8 +606,25 @@ export const pageScript = function() {
         callContext,
         logSettings,
       );
-      return func.apply(this, arguments);
+      wrapperDepth++;
+      try {
+        if (new.target) {
+          return Reflect.construct(
+            func,
+            arguments,
+            new.target === wrapper ? func : new.target,
+          );
+        }
+        return func.apply(this, arguments);
+      } finally {
+        wrapperDepth--;
+      }
     };
+    if (func.prototype) {
+      wrapper.prototype = func.prototype;
+    }
+    Object.setPrototypeOf(wrapper, func);
+    return wrapper;
   }
 
   // Log properties of prototypes and objects
@@ -571,6 +650,9 @@ export const pageScript = function() {
     const originalGetter = propDesc.get;
     const originalSetter = propDesc.set;
     let originalValue = propDesc.value;
+    // Returned functions are wrapped once, so that the property keeps
+    // returning the same function (eg `WebSocket === WebSocket`)
+    const functionWrappers = new WeakMap();
 
     // We overwrite both data and accessor properties as an instrumented
     // accessor property
@@ -611,12 +693,18 @@ export const pageScript = function() {
           // * Returned objects may be instrumented if recursive
           //   instrumentation is enabled and this isn't at the depth limit.
           if (typeof origProperty === "function") {
-            return instrumentFunction(
-              objectName,
-              propertyName,
-              origProperty,
-              logSettings,
-            );
+            if (!functionWrappers.has(origProperty)) {
+              functionWrappers.set(
+                origProperty,
+                instrumentFunction(
+                  objectName,
+                  propertyName,
+                  origProperty,
+                  logSettings,
+                ),
+              );
+            }
+            return functionWrappers.get(origProperty);
           } else if (
             typeof origProperty === "object" &&
             !!logSettings.recursive &&
@@ -661,7 +749,12 @@ export const pageScript = function() {
           // set new value to original setter/location
           if (originalSetter) {
             // if accessor property
-            returnValue = originalSetter.call(this, value);
+            wrapperDepth++;
+            try {
+              returnValue = originalSetter.call(this, value);
+            } finally {
+              wrapperDepth--;
+            }
           } else if ("value" in propDesc) {
             // if data property
             originalValue = value;
@@ -701,122 +794,631 @@ export const pageScript = function() {
   /*
      * Start Instrumentation
      */
-  // TODO: user should be able to choose what to instrument
-
-  // Access to navigator properties
-  const navigatorProperties = [
-    "appCodeName",
-    "appName",
-    "appVersion",
-    "buildID",
-    "cookieEnabled",
-    "doNotTrack",
-    "geolocation",
-    "language",
-    "languages",
-    "onLine",
-    "oscpu",
-    "platform",
-    "product",
-    "productSub",
-    "userAgent",
-    "vendorSub",
-    "vendor",
-  ];
-  navigatorProperties.forEach(function(property) {
-    instrumentObjectProperty(window.navigator, "window.navigator", property);
-  });
 
-  // Access to screen properties
-  // instrumentObject(window.screen, "window.screen");
-  // TODO: why do we instrument only two screen properties
-  const screenProperties = ["pixelDepth", "colorDepth"];
-  screenProperties.forEach(function(property) {
-    instrumentObjectProperty(window.screen, "window.screen", property);
+  // Resolves an object path such as "window.navigator.plugins"
+  function resolveObjectPath(path) {
+    const parts = path.split(".");
+    if (parts[0] !== "window") {
+      return undefined;
+    }
+    let object: any = window;
+    for (const part of parts.slice(1)) {
+      if (object === undefined || object === null) {
+        return undefined;
+      }
+      object = object[part];
+    }
+    return object;
+  }
+
+  // The wrappers of network APIs are installed first, so that replacing
+  // them is not logged as a set by the instrumentation below
+  if (options.recordRequestCallStacks) {
+    instrumentRequestCallStacks();
+  }
+  if (options.recordWebSocketFrames) {
+    instrumentWebSocketFrames();
+  }
+  if (options.recordStorageAccess) {
+    instrumentStorageAccess();
+  }
+
+  instrumentationSpec.forEach(function(entry) {
+    const object = resolveObjectPath(entry.object);
+    if (object === undefined || object === null) {
+      console.log("OpenWPM: Object to instrument not found: " + entry.object);
+      return;
+    }
+    const instrumentedName = entry.instrumentedName || entry.object;
+    if (entry.collectionItemKey) {
+      for (let i = 0; i < object.length; i++) {
+        const itemName = object[i][entry.collectionItemKey];
+        instrumentObject(
+          object[i],
+          instrumentedName + "[" + itemName + "]",
+          entry.logSettings,
+        );
+      }
+    } else {
+      instrumentObject(object, instrumentedName, entry.logSettings);
+    }
   });
 
-  // Access to plugins
-  const pluginProperties = [
-    "name",
-    "filename",
-    "description",
-    "version",
-    "length",
-  ];
-  for (let i = 0; i < window.navigator.plugins.length; i++) {
-    const pluginName = window.navigator.plugins[i].name;
-    pluginProperties.forEach(function(property) {
-      instrumentObjectProperty(
-        window.navigator.plugins[pluginName],
-        "window.navigator.plugins[" + pluginName + "]",
-        property,
+  /*
+   * Call stacks of requests initiated by scripts
+   */
+
+  function logRequestCallStack(url) {
+    try {
+      // 0, 1 and 2 are OpenWPM's own functions (e.g. getStackTrace), skip
+      // them along with the wrappers of the instrumentation spec, if any
+      const callStack = getStackTrace()
+        .trim()
+        .split("\n")
+        .slice(3 + wrapperDepth)
+        .join("\n");
+      sendImmediately("logRequestCallStack", {
+        url: new URL(String(url), document.baseURI).href,
+        callStack,
+      });
+    } catch (error) {
+      console.log("OpenWPM: Unsuccessful request call stack log!");
+      logErrorToConsole(error);
+    }
+  }
+
+  function instrumentRequestCallStacks() {
+    // Lets the background know to wait for the call stacks of this frame
+    sendImmediately("recordingRequestCallStacks", {});
+
+    const originalFetch = window.fetch;
+    window.fetch = function(input) {
+      logRequestCallStack(input instanceof Request ? input.url : input);
+      return originalFetch.apply(this, arguments);
+    };
+
+    // The url is only known when the request is opened, but it is sent later
+    const openedUrls = new WeakMap();
+    const originalOpen = XMLHttpRequest.prototype.open;
+    XMLHttpRequest.prototype.open = function(_method, url) {
+      openedUrls.set(this, url);
+      return originalOpen.apply(this, arguments);
+    };
+    const originalSend = XMLHttpRequest.prototype.send;
+    XMLHttpRequest.prototype.send = function() {
+      if (openedUrls.has(this)) {
+        logRequestCallStack(openedUrls.get(this));
+      }
+      return originalSend.apply(this, arguments);
+    };
+
+    const originalSendBeacon = Navigator.prototype.sendBeacon;
+    Navigator.prototype.sendBeacon = function(url) {
+      logRequestCallStack(url);
+      return originalSendBeacon.apply(this, arguments);
+    };
+
+    // Images are loaded as soon as their src is set
+    const srcDescriptor = Object.getOwnPropertyDescriptor(
+      HTMLImageElement.prototype,
+      "src",
+    );
+    Object.defineProperty(HTMLImageElement.prototype, "src", {
+      ...srcDescriptor,
+      set(value) {
+        logRequestCallStack(value);
+        return srcDescriptor.set.call(this, value);
+      },
+    });
+
+    // Scripts are loaded as soon as they are inserted into the document
+    const logScriptInsertion = function(node) {
+      if (node instanceof HTMLScriptElement && node.src) {
+        logRequestCallStack(node.src);
+      }
+    };
+    const originalAppendChild = Node.prototype.appendChild;
+    Node.prototype.appendChild = function(node) {
+      logScriptInsertion(node);
+      return originalAppendChild.apply(this, arguments);
+    };
+    const originalInsertBefore = Node.prototype.insertBefore;
+    Node.prototype.insertBefore = function(node) {
+      logScriptInsertion(node);
+      return originalInsertBefore.apply(this, arguments);
+    };
+  }
+
+  /*
+   * WebSocket connections and frames
+   */
+
+  function utf8ByteLength(str) {
+    return unescape(encodeURIComponent(str)).length;
+  }
+
+  function bufferToBase64(buffer) {
+    const bytes = new Uint8Array(buffer);
+    // String.fromCharCode can only handle a limited number of arguments
+    const chunkSize = 0x8000;
+    let binaryString = "";
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+      binaryString += String.fromCharCode.apply(
+        null,
+        bytes.subarray(i, i + chunkSize),
       );
+    }
+    return btoa(binaryString);
+  }
+
+  function readBlob(blob): Promise<ArrayBuffer> {
+    return new Promise(function(resolve, reject) {
+      const reader = new FileReader();
+      reader.onload = function() {
+        resolve(reader.result as ArrayBuffer);
+      };
+      reader.onerror = function() {
+        reject(reader.error);
+      };
+      reader.readAsArrayBuffer(blob);
     });
   }
 
-  // Access to MIMETypes
-  const mimeTypeProperties = ["description", "suffixes", "type"];
-  for (let i = 0; i < window.navigator.mimeTypes.length; i++) {
-    const mimeTypeName = ((window.navigator.mimeTypes[
-      i
-    ] as unknown) as MimeType).type; // note: upstream typings seems to be incorrect
-    mimeTypeProperties.forEach(function(property) {
-      instrumentObjectProperty(
-        window.navigator.mimeTypes[mimeTypeName],
-        "window.navigator.mimeTypes[" + mimeTypeName + "]",
-        property,
+  // Resolves with the opcode, size and payload of a frame's data
+  function describeFrame(data) {
+    if (typeof data === "string") {
+      return Promise.resolve({
+        opcode: 1,
+        size: utf8ByteLength(data),
+        payload: data,
+      });
+    }
+    const buffer =
+      data instanceof Blob
+        ? readBlob(data)
+        : Promise.resolve(
+            ArrayBuffer.isView(data)
+              ? data.buffer.slice(
+                  data.byteOffset,
+                  data.byteOffset + data.byteLength,
+                )
+              : data,
+          );
+    return buffer.then(function(arrayBuffer) {
+      return {
+        opcode: 2,
+        size: arrayBuffer.byteLength,
+        payload: bufferToBase64(arrayBuffer),
+      };
+    });
+  }
+
+  function instrumentWebSocketFrames() {
+    const OriginalWebSocket = window.WebSocket;
+    const connectionIdPrefix = Math.random()
+      .toString(36)
+      .slice(2);
+    let connectionCount = 0;
+    const connections = new WeakMap();
+
+    // Events are queued per connection, since reading binary frames from
+    // blobs is asynchronous and would otherwise reorder them
+    function logWebSocketEvent(connection, getEvent) {
+      connection.queue = connection.queue
+        .then(getEvent)
+        .then(function(event) {
+          send("logWebSocketEvent", {
+            connectionId: connection.id,
+            url: connection.url,
+            ...event,
+          });
+        })
+        .catch(function(error) {
+          console.log("OpenWPM: Unsuccessful WebSocket event log!");
+          logErrorToConsole(error);
+        });
+    }
+
+    function logFrame(connection, direction, data) {
+      logWebSocketEvent(connection, function() {
+        return describeFrame(data).then(function(frame) {
+          return { event: "frame", direction, ...frame };
+        });
+      });
+    }
+
+    const InstrumentedWebSocket = function() {
+      const socket = Reflect.construct(
+        OriginalWebSocket,
+        arguments,
+        new.target === InstrumentedWebSocket ? OriginalWebSocket : new.target,
       );
+      const connection = {
+        id: connectionIdPrefix + "-" + ++connectionCount,
+        url: socket.url,
+        queue: Promise.resolve(),
+      };
+      connections.set(socket, connection);
+      socket.addEventListener("open", function() {
+        logWebSocketEvent(connection, function() {
+          return { event: "open" };
+        });
+      });
+      socket.addEventListener("message", function(event) {
+        logFrame(connection, "received", event.data);
+      });
+      socket.addEventListener("error", function() {
+        logWebSocketEvent(connection, function() {
+          return { event: "error" };
+        });
+      });
+      socket.addEventListener("close", function(event) {
+        logWebSocketEvent(connection, function() {
+          return {
+            event: "close",
+            closeCode: event.code,
+            closeReason: event.reason,
+          };
+        });
+      });
+      return socket;
+    };
+    // Keep the constants (eg WebSocket.OPEN) and instanceof checks working
+    InstrumentedWebSocket.prototype = OriginalWebSocket.prototype;
+    Object.setPrototypeOf(InstrumentedWebSocket, OriginalWebSocket);
+    (window as any).WebSocket = InstrumentedWebSocket;
+
+    const originalSend = OriginalWebSocket.prototype.send;
+    OriginalWebSocket.prototype.send = function(data) {
+      const connection = connections.get(this);
+      // Data can only be sent on open connections, otherwise send throws
+      if (connection && this.readyState === OriginalWebSocket.OPEN) {
+        logFrame(connection, "sent", data);
+      }
+      return originalSend.apply(this, arguments);
+    };
+  }
+
+  /*
+   * Access to client-side storage
+   */
+
+  // Sends a storage access along with the script context of the call
+  function logStorageAccess(callContext, access) {
+    const overLimit = updateCounterAndCheckIfOver(
+      callContext.scriptUrl,
+      access.area + "." + access.operation,
+    );
+    if (overLimit) {
+      return;
+    }
+    try {
+      send("logStorageAccess", {
+        ...access,
+        scriptUrl: callContext.scriptUrl,
+        scriptLine: callContext.scriptLine,
+        scriptCol: callContext.scriptCol,
+        funcName: callContext.funcName,
+        scriptLocEval: callContext.scriptLocEval,
+        callStack: callContext.callStack,
+      });
+    } catch (error) {
+      console.log("OpenWPM: Unsuccessful storage access log!");
+      logErrorToConsole(error);
+    }
+  }
+
+  // Storage keys and values that are not strings (eg IndexedDB keys and
+  // values) are serialized as JSON
+  function serializeStorageValue(value) {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    return typeof value === "string" ? value : serializeObject(value);
+  }
+
+  function describeStorageValue(value) {
+    const serialized = serializeStorageValue(value);
+    return serialized === undefined
+      ? {}
+      : { valueSize: utf8ByteLength(serialized), value: serialized };
+  }
+
+  function resolveRequestUrl(input) {
+    const url =
+      typeof Request !== "undefined" && input instanceof Request
+        ? input.url
+        : String(input);
+    return new URL(url, document.baseURI).href;
+  }
+
+  function readResponseSize(response): Promise<number> {
+    return response.arrayBuffer().then(function(buffer) {
+      return buffer.byteLength;
     });
   }
-  // Name, localStorage, and sessionsStorage logging
-  // Instrumenting window.localStorage directly doesn't seem to work, so the Storage
-  // prototype must be instrumented instead. Unfortunately this fails to differentiate
-  // between sessionStorage and localStorage. Instead, you'll have to look for a sequence
-  // of a get for the localStorage object followed by a getItem/setItem for the Storage object.
-  const windowProperties = ["name", "localStorage", "sessionStorage"];
-  windowProperties.forEach(function(property) {
-    instrumentObjectProperty(window, "window", property);
-  });
-  instrumentObject(window.Storage.prototype, "window.Storage");
 
-  // Access to document.cookie
-  instrumentObjectProperty(window.document, "window.document", "cookie", {
-    logCallStack: true,
-  });
+  // Replaces a method with a wrapper that passes the script context, the
+  // arguments and the return value of each call to `log`, with `this` bound
+  // to the object the method was called on
+  function hookStorageMethod(object, methodName, log) {
+    const original = object && object[methodName];
+    if (typeof original !== "function") {
+      return;
+    }
+    object[methodName] = function() {
+      const callContext = getOriginatingScriptContext(true, wrapperDepth);
+      const returnValue = original.apply(this, arguments);
+      try {
+        log.call(this, callContext, arguments, returnValue);
+      } catch (error) {
+        console.log("OpenWPM: Unsuccessful storage access log!");
+        logErrorToConsole(error);
+      }
+      return returnValue;
+    };
+  }
+
+  // Calls `callback` with the result of an IndexedDB request once it succeeds
+  function onRequestSuccess(request, callback) {
+    request.addEventListener("success", function() {
+      callback(request.result);
+    });
+  }
+
+  function instrumentStorageAccess() {
+    // Storage.prototype is shared by localStorage and sessionStorage, so the
+    // area is told apart by comparing against both. Note that accessing
+    // items as properties (eg `localStorage.key = value`) is not observed.
+    let localStorageArea;
+    let sessionStorageArea;
+    try {
+      localStorageArea = window.localStorage;
+      sessionStorageArea = window.sessionStorage;
+    } catch (error) {
+      // Storage is not available in sandboxed frames
+    }
+    function storageArea(storage) {
+      if (storage === localStorageArea) {
+        return "localStorage";
+      }
+      return storage === sessionStorageArea ? "sessionStorage" : undefined;
+    }
+    function logStorageMethod(methodName, getAccess) {
+      if (typeof Storage === "undefined") {
+        return;
+      }
+      hookStorageMethod(Storage.prototype, methodName, function(
+        callContext,
+        args,
+        returnValue,
+      ) {
+        const area = storageArea(this);
+        if (area) {
+          logStorageAccess(callContext, {
+            area,
+            ...getAccess(args, returnValue),
+          });
+        }
+      });
+    }
+    logStorageMethod("getItem", function(args, returnValue) {
+      return {
+        operation: "get",
+        key: String(args[0]),
+        ...describeStorageValue(returnValue),
+      };
+    });
+    logStorageMethod("setItem", function(args) {
+      return {
+        operation: "set",
+        key: String(args[0]),
+        ...describeStorageValue(String(args[1])),
+      };
+    });
+    logStorageMethod("removeItem", function(args) {
+      return { operation: "remove", key: String(args[0]) };
+    });
+    logStorageMethod("clear", function() {
+      return { operation: "clear" };
+    });
 
-  // Access to canvas
-  instrumentObject(window.HTMLCanvasElement.prototype, "HTMLCanvasElement");
-
-  const excludedProperties = [
-    "quadraticCurveTo",
-    "lineTo",
-    "transform",
-    "globalAlpha",
-    "moveTo",
-    "drawImage",
-    "setTransform",
-    "clearRect",
-    "closePath",
-    "beginPath",
-    "canvas",
-    "translate",
-  ];
-  instrumentObject(
-    window.CanvasRenderingContext2D.prototype,
-    "CanvasRenderingContext2D",
-    { excludedProperties },
-  );
-
-  // Access to webRTC
-  instrumentObject(window.RTCPeerConnection.prototype, "RTCPeerConnection");
-
-  // Access to Audio API
-  instrumentObject(window.AudioContext.prototype, "AudioContext");
-  instrumentObject(window.OfflineAudioContext.prototype, "OfflineAudioContext");
-  instrumentObject(window.OscillatorNode.prototype, "OscillatorNode");
-  instrumentObject(window.AnalyserNode.prototype, "AnalyserNode");
-  instrumentObject(window.GainNode.prototype, "GainNode");
-  instrumentObject(window.ScriptProcessorNode.prototype, "ScriptProcessorNode");
+    // IndexedDB keys are only known once put and add requests succeed
+    if (typeof IDBFactory !== "undefined") {
+      hookStorageMethod(IDBFactory.prototype, "open", function(
+        callContext,
+        args,
+      ) {
+        logStorageAccess(callContext, {
+          area: "indexedDB",
+          operation: "open",
+          name: String(args[0]),
+        });
+      });
+    }
+    if (typeof IDBObjectStore !== "undefined") {
+      const objectStoreName = function(objectStore) {
+        return objectStore.transaction.db.name + "/" + objectStore.name;
+      };
+      ["put", "add"].forEach(function(methodName) {
+        hookStorageMethod(IDBObjectStore.prototype, methodName, function(
+          callContext,
+          args,
+          request,
+        ) {
+          const name = objectStoreName(this);
+          onRequestSuccess(request, function(key) {
+            logStorageAccess(callContext, {
+              area: "indexedDB",
+              operation: "set",
+              name,
+              key: serializeStorageValue(key),
+              ...describeStorageValue(args[0]),
+            });
+          });
+        });
+      });
+      hookStorageMethod(IDBObjectStore.prototype, "get", function(
+        callContext,
+        args,
+        request,
+      ) {
+        const name = objectStoreName(this);
+        onRequestSuccess(request, function(value) {
+          logStorageAccess(callContext, {
+            area: "indexedDB",
+            operation: "get",
+            name,
+            key: serializeStorageValue(args[0]),
+            ...describeStorageValue(value),
+          });
+        });
+      });
+      hookStorageMethod(IDBObjectStore.prototype, "delete", function(
+        callContext,
+        args,
+      ) {
+        logStorageAccess(callContext, {
+          area: "indexedDB",
+          operation: "remove",
+          name: objectStoreName(this),
+          key: serializeStorageValue(args[0]),
+        });
+      });
+      hookStorageMethod(IDBObjectStore.prototype, "clear", function(
+        callContext,
+      ) {
+        logStorageAccess(callContext, {
+          area: "indexedDB",
+          operation: "clear",
+          name: objectStoreName(this),
+        });
+      });
+    }
+
+    // Caches do not know their own names, so these are remembered when the
+    // caches are opened. Only the size of cached responses is recorded.
+    const cacheNames = new WeakMap();
+    if (typeof CacheStorage !== "undefined") {
+      hookStorageMethod(CacheStorage.prototype, "open", function(
+        callContext,
+        args,
+        promise,
+      ) {
+        const name = String(args[0]);
+        logStorageAccess(callContext, {
+          area: "cache",
+          operation: "open",
+          name,
+        });
+        promise.then(
+          function(cache) {
+            cacheNames.set(cache, name);
+          },
+          function() {
+            // The page handles the rejection
+          },
+        );
+      });
+    }
+    if (typeof Cache !== "undefined") {
+      // The response body is consumed by put, so a clone is read instead
+      const originalPut = Cache.prototype.put;
+      Cache.prototype.put = function(request, response) {
+        const callContext = getOriginatingScriptContext(true, wrapperDepth);
+        const name = cacheNames.get(this);
+        let clone;
+        try {
+          clone = response.clone();
+        } catch (error) {
+          // put rejects responses whose body was already used
+        }
+        const returnValue = originalPut.apply(this, arguments);
+        if (clone) {
+          readResponseSize(clone)
+            .then(function(valueSize) {
+              logStorageAccess(callContext, {
+                area: "cache",
+                operation: "set",
+                name,
+                key: resolveRequestUrl(request),
+                valueSize,
+              });
+            })
+            .catch(function(error) {
+              console.log("OpenWPM: Unsuccessful storage access log!");
+              logErrorToConsole(error);
+            });
+        }
+        return returnValue;
+      };
+      hookStorageMethod(Cache.prototype, "add", function(callContext, args) {
+        logStorageAccess(callContext, {
+          area: "cache",
+          operation: "set",
+          name: cacheNames.get(this),
+          key: resolveRequestUrl(args[0]),
+        });
+      });
+      hookStorageMethod(Cache.prototype, "match", function(
+        callContext,
+        args,
+        promise,
+      ) {
+        const access = {
+          area: "cache",
+          operation: "get",
+          name: cacheNames.get(this),
+          key: resolveRequestUrl(args[0]),
+        };
+        // This handler is attached before the page's, so the response body
+        // is still unused when it is cloned
+        promise
+          .then(function(response) {
+            return response ? readResponseSize(response.clone()) : undefined;
+          })
+          .then(function(valueSize) {
+            logStorageAccess(callContext, { ...access, valueSize });
+          })
+          .catch(function(error) {
+            console.log("OpenWPM: Unsuccessful storage access log!");
+            logErrorToConsole(error);
+          });
+      });
+      hookStorageMethod(Cache.prototype, "delete", function(callContext, args) {
+        logStorageAccess(callContext, {
+          area: "cache",
+          operation: "remove",
+          name: cacheNames.get(this),
+          key: resolveRequestUrl(args[0]),
+        });
+      });
+    }
+
+    // Cookies written by scripts, as "name=value; attributes"
+    const cookieDescriptor = Object.getOwnPropertyDescriptor(
+      Document.prototype,
+      "cookie",
+    );
+    if (cookieDescriptor && cookieDescriptor.set) {
+      Object.defineProperty(Document.prototype, "cookie", {
+        ...cookieDescriptor,
+        set(cookieString) {
+          const callContext = getOriginatingScriptContext(true, wrapperDepth);
+          cookieDescriptor.set.call(this, cookieString);
+          const pair = String(cookieString).split(";")[0];
+          const separator = pair.indexOf("=");
+          logStorageAccess(callContext, {
+            area: "cookie",
+            operation: "set",
+            // Cookies without a "=" have an empty name
+            key: separator === -1 ? "" : pair.slice(0, separator).trim(),
+            ...describeStorageValue(pair.slice(separator + 1).trim()),
+          });
+        },
+      });
+    }
+  }
 
   if (testing) {
     console.log("OpenWPM: Content-side javascript instrumentation started");
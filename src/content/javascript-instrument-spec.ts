@@ -0,0 +1,210 @@
+export interface LogSettings {
+  propertiesToInstrument?: string[];
+  excludedProperties?: string[];
+  logCallStack?: boolean;
+  logFunctionsAsStrings?: boolean;
+  preventSets?: boolean;
+  recursive?: boolean;
+  depth?: number;
+}
+
+/**
+ * Declares which instrumentation, besides the JavaScript APIs of the spec,
+ * the page script installs. Needs to be JSON-serializable, as it is passed
+ * to the page script as text.
+ */
+export interface PageScriptOptions {
+  /**
+   * Record the call stacks of requests initiated by scripts, for the
+   * HttpInstrument recordCallStacks option
+   */
+  recordRequestCallStacks?: boolean;
+  /** Record WebSocket connections and frames, for the WebSocketInstrument */
+  recordWebSocketFrames?: boolean;
+  /**
+   * Record access to localStorage, sessionStorage, IndexedDB, the Cache API
+   * and cookies, for the StorageInstrument
+   */
+  recordStorageAccess?: boolean;
+}
+
+export interface JavascriptInstrumentSpecEntry {
+  /**
+   * Path of the object to instrument, starting at `window`,
+   * eg "window.navigator" or "window.Storage.prototype"
+   */
+  object: string;
+  /** Name of the object as saved to the database. Default is `object`. */
+  instrumentedName?: string;
+  /**
+   * If set, `object` is a collection (eg "window.navigator.plugins") and
+   * each of its items is instrumented instead, named after the item's value
+   * of this property (eg "name")
+   */
+  collectionItemKey?: string;
+  /** See the documentation of `instrumentObject` in the page script */
+  logSettings?: LogSettings;
+}
+
+/**
+ * Declares which JavaScript APIs to instrument. Needs to be JSON-serializable
+ * since it is passed to the page script as part of its source.
+ */
+export type JavascriptInstrumentSpec = JavascriptInstrumentSpecEntry[];
+
+export const defaultJavascriptInstrumentSpec: JavascriptInstrumentSpec = [
+  // Access to navigator properties
+  {
+    object: "window.navigator",
+    logSettings: {
+      propertiesToInstrument: [
+        "appCodeName",
+        "appName",
+        "appVersion",
+        "buildID",
+        "cookieEnabled",
+        "doNotTrack",
+        "geolocation",
+        "language",
+        "languages",
+        "onLine",
+        "oscpu",
+        "platform",
+        "product",
+        "productSub",
+        "userAgent",
+        "vendorSub",
+        "vendor",
+      ],
+    },
+  },
+  // Access to screen properties
+  // TODO: why do we instrument only two screen properties
+  {
+    object: "window.screen",
+    logSettings: { propertiesToInstrument: ["pixelDepth", "colorDepth"] },
+  },
+  // Access to plugins
+  {
+    object: "window.navigator.plugins",
+    collectionItemKey: "name",
+    logSettings: {
+      propertiesToInstrument: [
+        "name",
+        "filename",
+        "description",
+        "version",
+        "length",
+      ],
+    },
+  },
+  // Access to MIMETypes
+  {
+    object: "window.navigator.mimeTypes",
+    collectionItemKey: "type",
+    logSettings: {
+      propertiesToInstrument: ["description", "suffixes", "type"],
+    },
+  },
+  // Name, localStorage, and sessionsStorage logging
+  // Instrumenting window.localStorage directly doesn't seem to work, so the Storage
+  // prototype must be instrumented instead. Unfortunately this fails to differentiate
+  // between sessionStorage and localStorage. Instead, you'll have to look for a sequence
+  // of a get for the localStorage object followed by a getItem/setItem for the Storage object,
+  // or use the StorageInstrument, which records the storage area of each access.
+  {
+    object: "window",
+    logSettings: {
+      propertiesToInstrument: ["name", "localStorage", "sessionStorage"],
+    },
+  },
+  { object: "window.Storage.prototype", instrumentedName: "window.Storage" },
+  // Access to document.cookie
+  {
+    object: "window.document",
+    logSettings: { propertiesToInstrument: ["cookie"], logCallStack: true },
+  },
+  // Access to canvas
+  {
+    object: "window.HTMLCanvasElement.prototype",
+    instrumentedName: "HTMLCanvasElement",
+  },
+  {
+    object: "window.CanvasRenderingContext2D.prototype",
+    instrumentedName: "CanvasRenderingContext2D",
+    logSettings: {
+      excludedProperties: [
+        "quadraticCurveTo",
+        "lineTo",
+        "transform",
+        "globalAlpha",
+        "moveTo",
+        "drawImage",
+        "setTransform",
+        "clearRect",
+        "closePath",
+        "beginPath",
+        "canvas",
+        "translate",
+      ],
+    },
+  },
+  // Network APIs that scripts can send data with
+  {
+    object: "window",
+    logSettings: {
+      propertiesToInstrument: ["fetch", "WebSocket"],
+      logCallStack: true,
+    },
+  },
+  {
+    object: "window.XMLHttpRequest.prototype",
+    instrumentedName: "XMLHttpRequest",
+    logSettings: {
+      propertiesToInstrument: ["open", "send", "setRequestHeader"],
+      logCallStack: true,
+    },
+  },
+  {
+    object: "window.navigator",
+    logSettings: {
+      propertiesToInstrument: ["sendBeacon"],
+      logCallStack: true,
+    },
+  },
+  {
+    object: "window.WebSocket.prototype",
+    instrumentedName: "WebSocket",
+    logSettings: {
+      propertiesToInstrument: ["send", "close"],
+      logCallStack: true,
+    },
+  },
+  // Access to webRTC
+  {
+    object: "window.RTCPeerConnection.prototype",
+    instrumentedName: "RTCPeerConnection",
+  },
+  // Access to Audio API
+  {
+    object: "window.AudioContext.prototype",
+    instrumentedName: "AudioContext",
+  },
+  {
+    object: "window.OfflineAudioContext.prototype",
+    instrumentedName: "OfflineAudioContext",
+  },
+  {
+    object: "window.OscillatorNode.prototype",
+    instrumentedName: "OscillatorNode",
+  },
+  {
+    object: "window.AnalyserNode.prototype",
+    instrumentedName: "AnalyserNode",
+  },
+  { object: "window.GainNode.prototype", instrumentedName: "GainNode" },
+  {
+    object: "window.ScriptProcessorNode.prototype",
+    instrumentedName: "ScriptProcessorNode",
+  },
+];
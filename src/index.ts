@@ -1,7 +1,18 @@
 export * from "./background/cookie-instrument";
+export * from "./background/dns-instrument";
 export * from "./background/http-instrument";
 export * from "./background/javascript-instrument";
+export * from "./background/navigation-instrument";
+export * from "./background/storage-instrument";
+export * from "./background/websocket-instrument";
 export * from "./content/javascript-instrument-content-scope";
+export * from "./content/javascript-instrument-spec";
+export * from "./lib/batched-data-receiver";
+export * from "./lib/data-receiver";
+export * from "./lib/deduplicating-data-receiver";
 export * from "./lib/http-post-parser";
+export * from "./lib/in-memory-data-receiver";
+export * from "./lib/instrument-config";
 export * from "./lib/string-utils";
+export * from "./lib/tee-data-receiver";
 export * from "./schema";
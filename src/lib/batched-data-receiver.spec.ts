@@ -0,0 +1,67 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { BatchedDataReceiver } from "./batched-data-receiver";
+import { DataReceiverEntry, replayDataReceiverEntry } from "./data-receiver";
+import { InMemoryDataReceiver } from "./in-memory-data-receiver";
+import { TeeDataReceiver } from "./tee-data-receiver";
+
+const redirect = {
+  old_request_id: "1",
+  time_stamp: "2018-01-01T00:00:00.000Z",
+};
+
+test("flushes when the batch size is reached", t => {
+  const batches: DataReceiverEntry[][] = [];
+  const batched = new BatchedDataReceiver(batch => batches.push(batch), {
+    flushIntervalMs: 0,
+    maxBatchSize: 2,
+  });
+  batched.saveRecord("http_redirects", redirect);
+  t.is(batches.length, 0);
+  batched.logError("error");
+  t.is(batches.length, 1);
+  t.deepEqual(batches[0], [
+    { type: "record", table: "http_redirects", record: redirect },
+    { type: "error", message: "error" },
+  ]);
+});
+
+test("flushes explicitly and skips empty batches", t => {
+  const batches: DataReceiverEntry[][] = [];
+  const batched = new BatchedDataReceiver(batch => batches.push(batch), {
+    flushIntervalMs: 0,
+  });
+  batched.flush();
+  t.is(batches.length, 0);
+  batched.saveContent("body", "hash");
+  batched.flush();
+  t.is(batches.length, 1);
+});
+
+test("flushes after the flush interval", async t => {
+  const batches: DataReceiverEntry[][] = [];
+  const batched = new BatchedDataReceiver(batch => batches.push(batch), {
+    flushIntervalMs: 10,
+  });
+  batched.logDebug("debug");
+  t.is(batches.length, 0);
+  await new Promise(resolve => setTimeout(resolve, 50));
+  t.is(batches.length, 1);
+});
+
+test("batches replayed through a tee reach all receivers", t => {
+  const first = new InMemoryDataReceiver();
+  const second = new InMemoryDataReceiver();
+  const tee = new TeeDataReceiver([first, second]);
+  const batched = new BatchedDataReceiver(
+    batch => batch.forEach(entry => replayDataReceiverEntry(entry, tee)),
+    { flushIntervalMs: 0 },
+  );
+  batched.saveRecord("http_redirects", redirect);
+  batched.saveContent("body", "hash");
+  batched.flush();
+  for (const receiver of [first, second]) {
+    t.deepEqual(receiver.getRecords("http_redirects"), [redirect]);
+    t.is(receiver.contents.hash, "body");
+  }
+});
@@ -0,0 +1,79 @@
+import { TableName, TableRecords } from "../schema";
+import { DataReceiver, DataReceiverEntry } from "./data-receiver";
+
+export interface BatchedDataReceiverOptions {
+  /** Flush as soon as this many entries are queued. Default is `100`. */
+  maxBatchSize?: number;
+  /**
+   * Flush queued entries at the latest this many milliseconds after the
+   * first one was queued. Set to `0` to only flush on size or explicitly.
+   * Default is `1000`.
+   */
+  flushIntervalMs?: number;
+}
+
+/**
+ * Queues all calls and hands them over in batches, which is considerably
+ * cheaper than one message per record when sending data out of the extension
+ * (eg over a WebSocket or native messaging)
+ */
+export class BatchedDataReceiver implements DataReceiver {
+  private readonly sendBatch: (batch: DataReceiverEntry[]) => void;
+  private readonly maxBatchSize: number;
+  private readonly flushIntervalMs: number;
+  private queue: DataReceiverEntry[] = [];
+  private flushTimeout;
+
+  constructor(
+    sendBatch: (batch: DataReceiverEntry[]) => void,
+    options: BatchedDataReceiverOptions = {},
+  ) {
+    this.sendBatch = sendBatch;
+    this.maxBatchSize =
+      options.maxBatchSize !== undefined ? options.maxBatchSize : 100;
+    this.flushIntervalMs =
+      options.flushIntervalMs !== undefined ? options.flushIntervalMs : 1000;
+  }
+
+  public saveRecord<T extends TableName>(table: T, record: TableRecords[T]) {
+    this.enqueue({ type: "record", table, record });
+  }
+
+  public saveContent(content: string, contentHash: string) {
+    this.enqueue({ type: "content", content, contentHash });
+  }
+
+  public logError(message: string) {
+    this.enqueue({ type: "error", message });
+  }
+
+  public logDebug(message: string) {
+    this.enqueue({ type: "debug", message });
+  }
+
+  /**
+   * Hands over all queued entries immediately. Call this before tearing
+   * down the instrumentation so that nothing is lost.
+   */
+  public flush() {
+    if (this.flushTimeout) {
+      clearTimeout(this.flushTimeout);
+      this.flushTimeout = undefined;
+    }
+    if (this.queue.length === 0) {
+      return;
+    }
+    const batch = this.queue;
+    this.queue = [];
+    this.sendBatch(batch);
+  }
+
+  private enqueue(entry: DataReceiverEntry) {
+    this.queue.push(entry);
+    if (this.queue.length >= this.maxBatchSize) {
+      this.flush();
+    } else if (!this.flushTimeout && this.flushIntervalMs > 0) {
+      this.flushTimeout = setTimeout(() => this.flush(), this.flushIntervalMs);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { CookieJar } from "./cookie-jar";
+
+const cookie = (overrides = {}) => ({
+  name: "id",
+  value: "42",
+  domain: "example.com",
+  hostOnly: true,
+  path: "/",
+  secure: false,
+  httpOnly: false,
+  sameSite: "no_restriction" as browser.cookies.SameSiteStatus,
+  session: true,
+  storeId: "firefox-default",
+  firstPartyDomain: "",
+  ...overrides,
+});
+
+test("tells cookies apart by store, first-party domain, domain, path and name", t => {
+  const cookieJar = new CookieJar();
+  const cookies = [
+    cookie(),
+    cookie({ storeId: "firefox-container-1" }),
+    cookie({ firstPartyDomain: "example.org" }),
+    cookie({ domain: ".example.com", hostOnly: false }),
+    cookie({ path: "/app" }),
+    cookie({ name: "other" }),
+  ];
+  cookies.forEach(added => cookieJar.set(added));
+  t.is(cookieJar.size, cookies.length);
+  cookies.forEach(added => t.is(cookieJar.get(added), added));
+});
+
+test("replaces and deletes cookies regardless of their value", t => {
+  const cookieJar = new CookieJar();
+  cookieJar.set(cookie());
+  const changed = cookie({ value: "43", session: false });
+  cookieJar.set(changed);
+  t.is(cookieJar.size, 1);
+  t.is(cookieJar.get(cookie()), changed);
+  cookieJar.delete(cookie({ value: "" }));
+  t.is(cookieJar.get(cookie()), undefined);
+  cookieJar.set(cookie());
+  cookieJar.clear();
+  t.is(cookieJar.size, 0);
+});
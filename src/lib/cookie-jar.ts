@@ -0,0 +1,48 @@
+import Cookie = browser.cookies.Cookie;
+
+/**
+ * Identifies a cookie by the attributes that the browser tells cookies apart
+ * by: its cookie store, first-party domain, domain, path and name
+ *
+ * @param cookie
+ */
+const cookieKey = (cookie: Cookie) =>
+  [
+    cookie.storeId,
+    cookie.firstPartyDomain,
+    cookie.domain,
+    cookie.path,
+    cookie.name,
+  ].join("\t");
+
+/**
+ * The cookies known to be in the browser's cookie stores, as last seen
+ */
+export class CookieJar {
+  private cookies = new Map<string, Cookie>();
+
+  public get size() {
+    return this.cookies.size;
+  }
+
+  /**
+   * Returns the cookie in the jar that has the same identity as `cookie`
+   *
+   * @param cookie
+   */
+  public get(cookie: Cookie): Cookie | undefined {
+    return this.cookies.get(cookieKey(cookie));
+  }
+
+  public set(cookie: Cookie) {
+    this.cookies.set(cookieKey(cookie), cookie);
+  }
+
+  public delete(cookie: Cookie) {
+    this.cookies.delete(cookieKey(cookie));
+  }
+
+  public clear() {
+    this.cookies.clear();
+  }
+}
@@ -0,0 +1,103 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { CookieSets } from "./cookie-sets";
+import { parseCookieString } from "./cookie-string";
+
+const cookie = (overrides = {}) => ({
+  name: "id",
+  value: "42",
+  domain: "www.example.com",
+  hostOnly: true,
+  path: "/",
+  secure: false,
+  httpOnly: false,
+  sameSite: "no_restriction" as browser.cookies.SameSiteStatus,
+  session: true,
+  storeId: "firefox-default",
+  firstPartyDomain: "",
+  ...overrides,
+});
+
+const scriptCookieSet = (
+  cookieString: string,
+  timeStamp: number,
+  url = "https://www.example.com/",
+) => ({
+  url,
+  scriptUrl: "https://www.example.com/app.js",
+  callStack: "",
+  cookie: parseCookieString(cookieString),
+  timeStamp,
+});
+
+test("cookie string written before the change", async t => {
+  const cookieSets = new CookieSets();
+  const first = scriptCookieSet("id=42", 1000);
+  const second = scriptCookieSet("id=42", 1010);
+  cookieSets.add(first);
+  cookieSets.add(second);
+  t.is(await cookieSets.get(cookie(), false, 1020, 10), first);
+  t.is(await cookieSets.get(cookie(), false, 1030, 10), second);
+});
+
+test("cookie string written after the change", async t => {
+  const cookieSets = new CookieSets();
+  const lookup = cookieSets.get(cookie(), false, 1000, 1000);
+  const set = scriptCookieSet("id=42", 1001);
+  cookieSets.add(set);
+  t.is(await lookup, set);
+});
+
+test("matches domains and default paths like browsers", async t => {
+  const cookieSets = new CookieSets();
+  const domainSet = scriptCookieSet("id=42; domain=.Example.com", 1000);
+  const pathSet = scriptCookieSet("id=42", 1000, "https://www.example.com/a/b");
+  cookieSets.add(domainSet);
+  cookieSets.add(pathSet);
+  t.is(
+    await cookieSets.get(
+      cookie({ domain: ".example.com", hostOnly: false }),
+      false,
+      1000,
+      10,
+    ),
+    domainSet,
+  );
+  t.is(await cookieSets.get(cookie({ path: "/a" }), false, 1000, 10), pathSet);
+});
+
+test("removals match regardless of the value", async t => {
+  const cookieSets = new CookieSets();
+  const set = scriptCookieSet("id=; max-age=0", 1000);
+  cookieSets.add(set);
+  t.is(await cookieSets.get(cookie(), false, 1000, 10), undefined);
+  t.is(await cookieSets.get(cookie(), true, 1000, 10), set);
+});
+
+test("no cookie string for other cookies or times", async t => {
+  const cookieSets = new CookieSets(100);
+  cookieSets.add(scriptCookieSet("other=42", 1000));
+  cookieSets.add(scriptCookieSet("id=43", 1000));
+  cookieSets.add(scriptCookieSet("id=42; path=/app", 1000));
+  cookieSets.add(scriptCookieSet("id=42", 1000, "https://example.com/"));
+  cookieSets.add(scriptCookieSet("id=42", 500));
+  t.is(await cookieSets.get(cookie(), false, 1000, 10), undefined);
+});
+
+test("only responses set HttpOnly cookies", async t => {
+  const cookieSets = new CookieSets();
+  const scriptSet = scriptCookieSet("id=42", 1000);
+  const responseSet = {
+    url: "https://www.example.com/login",
+    requestId: "7",
+    cookie: parseCookieString("id=42; Path=/; HttpOnly"),
+    timeStamp: 1000,
+  };
+  cookieSets.add(scriptSet);
+  cookieSets.add(responseSet);
+  t.is(
+    await cookieSets.get(cookie({ httpOnly: true }), false, 1000, 10),
+    responseSet,
+  );
+  t.is(await cookieSets.get(cookie(), false, 1000, 10), scriptSet);
+});
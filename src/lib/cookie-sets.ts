@@ -0,0 +1,97 @@
+import { defaultCookiePath, ParsedCookieString } from "./cookie-string";
+import { Correlator } from "./correlator";
+import Cookie = browser.cookies.Cookie;
+
+/**
+ * A cookie string that was written to document.cookie by a script, or sent
+ * in a Set-Cookie response header
+ */
+export interface CookieSet {
+  /** The URL of the document, or of the response */
+  url: string;
+  cookie: ParsedCookieString;
+  timeStamp: number;
+  /** The script that wrote to document.cookie */
+  scriptUrl?: string;
+  callStack?: string;
+  /** The request whose response had the Set-Cookie header */
+  requestId?: string;
+}
+
+interface CookieChange {
+  cookie: Cookie;
+  removed: boolean;
+  timeStamp: number;
+}
+
+/**
+ * Whether the cookie string may have caused the cookie change, ie whether
+ * it sets a cookie with the same name, domain and path (and value, unless
+ * the cookie was removed). Scripts can not set HttpOnly cookies.
+ *
+ * @param cookieSet
+ * @param cookie
+ * @param removed
+ */
+const mayHaveChanged = (
+  cookieSet: CookieSet,
+  cookie: Cookie,
+  removed: boolean,
+) => {
+  const parsed = cookieSet.cookie;
+  const url = new URL(cookieSet.url);
+  const domainMatches = parsed.domain
+    ? !cookie.hostOnly && cookie.domain.replace(/^\./, "") === parsed.domain
+    : cookie.hostOnly && cookie.domain === url.hostname;
+  return (
+    parsed.name === cookie.name &&
+    (removed || parsed.value === cookie.value) &&
+    domainMatches &&
+    (parsed.path || defaultCookiePath(url.href)) === cookie.path &&
+    (!cookie.httpOnly || cookieSet.requestId !== undefined)
+  );
+};
+
+/**
+ * Correlates the cookie strings that scripts write to document.cookie, as
+ * recorded by the page script, and that responses send in Set-Cookie
+ * headers with the resulting cookies.onChanged events, by cookie and
+ * timing. Either side may arrive first.
+ */
+export class CookieSets {
+  private readonly correlator: Correlator<CookieSet, CookieChange>;
+
+  /**
+   * @param maxAgeMs Maximum time between a cookie string being set and the
+   * corresponding cookie change for the two to be correlated
+   */
+  constructor(maxAgeMs = 5000) {
+    this.correlator = new Correlator(
+      (cookieSet, change) =>
+        mayHaveChanged(cookieSet, change.cookie, change.removed),
+      maxAgeMs,
+    );
+  }
+
+  public add(cookieSet: CookieSet) {
+    this.correlator.add(cookieSet);
+  }
+
+  /**
+   * Resolves with the earliest cookie string that may have caused the
+   * change, or with undefined if none was recorded within the timeout
+   *
+   * @param cookie
+   * @param removed
+   * @param timeStamp
+   * @param timeoutMs
+   */
+  public get(
+    cookie: Cookie,
+    removed: boolean,
+    timeStamp: number,
+    timeoutMs: number,
+  ): Promise<CookieSet | undefined> {
+    return this.correlator.get({ cookie, removed, timeStamp }, timeoutMs);
+  }
+}
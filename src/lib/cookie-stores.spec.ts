@@ -0,0 +1,55 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { FakeBrowser, installFakeBrowser } from "../testing/fake-browser";
+import { CookieStores } from "./cookie-stores";
+
+let fakeBrowser: FakeBrowser;
+
+test.beforeEach(() => {
+  fakeBrowser = installFakeBrowser();
+  fakeBrowser.identities = [
+    {
+      name: "Work",
+      icon: "briefcase",
+      iconUrl: "",
+      color: "orange",
+      colorCode: "#ff9f00",
+      cookieStoreId: "firefox-container-2",
+    },
+  ];
+  fakeBrowser.cookieStores = [
+    { id: "firefox-default", tabIds: [1, 3], incognito: false },
+    { id: "firefox-container-2", tabIds: [2], incognito: false },
+  ];
+});
+
+test.serial("resolves the names of cookie stores", async t => {
+  const cookieStores = new CookieStores();
+  t.is(await cookieStores.getName("firefox-default"), "default");
+  t.is(await cookieStores.getName("firefox-private"), "private");
+  t.is(await cookieStores.getName("firefox-container-2"), "Work");
+  t.is(await cookieStores.getName("firefox-container-9"), undefined);
+});
+
+test.serial("caches names until cleared", async t => {
+  const cookieStores = new CookieStores();
+  t.is(await cookieStores.getName("firefox-container-2"), "Work");
+  fakeBrowser.identities[0].name = "Personal";
+  t.is(await cookieStores.getName("firefox-container-2"), "Work");
+  cookieStores.clear();
+  t.is(await cookieStores.getName("firefox-container-2"), "Personal");
+});
+
+test.serial("has no names when containers are not available", async t => {
+  delete (browser as any).contextualIdentities;
+  const cookieStores = new CookieStores();
+  t.is(await cookieStores.getName("firefox-container-2"), undefined);
+  t.is(await cookieStores.getName("firefox-default"), "default");
+});
+
+test.serial("lists the tabs that use a cookie store", async t => {
+  const cookieStores = new CookieStores();
+  t.deepEqual(await cookieStores.getTabIds("firefox-default"), [1, 3]);
+  t.deepEqual(await cookieStores.getTabIds("firefox-container-2"), [2]);
+  t.deepEqual(await cookieStores.getTabIds("firefox-container-9"), []);
+});
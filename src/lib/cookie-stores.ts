@@ -0,0 +1,55 @@
+/**
+ * Names of the cookie stores that are not those of contextual identities
+ */
+const builtInCookieStoreNames = {
+  "firefox-default": "default",
+  "firefox-private": "private",
+};
+
+/**
+ * Resolves cookie store ids to the names of the corresponding contextual
+ * identities (containers), and to the tabs that use the stores
+ */
+export class CookieStores {
+  private names: { [storeId: string]: Promise<string | undefined> } = {};
+
+  /**
+   * Resolves with the name of the container whose cookies are kept in the
+   * store, with "default" or "private" for the built-in stores, or with
+   * undefined if the store is unknown or containers are disabled
+   *
+   * @param storeId
+   */
+  public getName(storeId: string): Promise<string | undefined> {
+    if (builtInCookieStoreNames[storeId]) {
+      return Promise.resolve(builtInCookieStoreNames[storeId]);
+    }
+    if (!this.names[storeId]) {
+      this.names[storeId] = browser.contextualIdentities
+        ? browser.contextualIdentities
+            .get(storeId)
+            .then(identity => (identity ? identity.name : undefined))
+            .catch(() => undefined)
+        : Promise.resolve(undefined);
+    }
+    return this.names[storeId];
+  }
+
+  /**
+   * Resolves with the ids of the tabs that currently use the store
+   *
+   * @param storeId
+   */
+  public async getTabIds(storeId: string): Promise<number[]> {
+    const cookieStores = await browser.cookies.getAllCookieStores();
+    const cookieStore = cookieStores.find(store => store.id === storeId);
+    return cookieStore ? cookieStore.tabIds : [];
+  }
+
+  /**
+   * Forgets the resolved names, eg at the start of a crawl
+   */
+  public clear() {
+    this.names = {};
+  }
+}
@@ -0,0 +1,64 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { defaultCookiePath, parseCookieString } from "./cookie-string";
+
+test("parses the name, value and attributes", t => {
+  t.deepEqual(
+    parseCookieString(
+      " id = 42 ; Domain=.Example.COM; Path=/app; " +
+        "Expires=Wed, 01 Jan 2030 00:00:00 GMT; Max-Age=3600; " +
+        "SameSite=Lax; Secure",
+    ),
+    {
+      name: "id",
+      value: "42",
+      domain: "example.com",
+      path: "/app",
+      expires: "2030-01-01T00:00:00.000Z",
+      maxAge: 3600,
+      sameSite: "lax",
+      secure: true,
+    },
+  );
+});
+
+test("parses pairs without a name or value", t => {
+  t.deepEqual(parseCookieString("flag"), {
+    name: "",
+    value: "flag",
+    secure: false,
+  });
+  t.deepEqual(parseCookieString("id="), {
+    name: "id",
+    value: "",
+    secure: false,
+  });
+  t.deepEqual(parseCookieString("data=a=b"), {
+    name: "data",
+    value: "a=b",
+    secure: false,
+  });
+});
+
+test("ignores invalid attributes and keeps the last valid ones", t => {
+  t.deepEqual(
+    parseCookieString(
+      "id=42; Domain=; Path=relative; Expires=never; Max-Age=1h; " +
+        "Max-Age=0; Max-Age=-1; Path=/a; Path=/b; HttpOnly; Unknown=1",
+    ),
+    {
+      name: "id",
+      value: "42",
+      path: "/b",
+      maxAge: -1,
+      secure: false,
+    },
+  );
+});
+
+test("derives the default path from the document url", t => {
+  t.is(defaultCookiePath("https://example.com/"), "/");
+  t.is(defaultCookiePath("https://example.com/page"), "/");
+  t.is(defaultCookiePath("https://example.com/app/page?q=/x"), "/app");
+  t.is(defaultCookiePath("https://example.com/app/dir/"), "/app/dir");
+});
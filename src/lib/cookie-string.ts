@@ -0,0 +1,91 @@
+/**
+ * The name, value and attributes of a cookie string as written to
+ * document.cookie, eg "id=42; Path=/; Max-Age=3600; SameSite=Lax"
+ */
+export interface ParsedCookieString {
+  name: string;
+  value: string;
+  /** Lower-cased and without a leading dot */
+  domain?: string;
+  path?: string;
+  /** The Expires attribute as an ISO date string */
+  expires?: string;
+  /** The Max-Age attribute in seconds */
+  maxAge?: number;
+  /** "strict", "lax" or "none" as written, lower-cased */
+  sameSite?: string;
+  secure: boolean;
+}
+
+/**
+ * Parses a cookie string following the algorithm of RFC 6265 section 5.2.
+ * Attributes with invalid values are ignored, and later attributes take
+ * precedence over earlier ones of the same name.
+ *
+ * @param cookieString
+ */
+export const parseCookieString = (cookieString: string): ParsedCookieString => {
+  const [pair, ...attributes] = cookieString.split(";");
+  const separator = pair.indexOf("=");
+  // Like browsers, a pair without "=" is taken as a value with an empty name
+  const parsed: ParsedCookieString = {
+    name: separator === -1 ? "" : pair.slice(0, separator).trim(),
+    value: pair.slice(separator + 1).trim(),
+    secure: false,
+  };
+  attributes.forEach(attribute => {
+    const attributeSeparator = attribute.indexOf("=");
+    const attributeName = (attributeSeparator === -1
+      ? attribute
+      : attribute.slice(0, attributeSeparator)
+    )
+      .trim()
+      .toLowerCase();
+    const attributeValue =
+      attributeSeparator === -1
+        ? ""
+        : attribute.slice(attributeSeparator + 1).trim();
+    switch (attributeName) {
+      case "domain":
+        if (attributeValue) {
+          parsed.domain = attributeValue.replace(/^\./, "").toLowerCase();
+        }
+        break;
+      case "path":
+        if (attributeValue.charAt(0) === "/") {
+          parsed.path = attributeValue;
+        }
+        break;
+      case "expires":
+        const expires = Date.parse(attributeValue);
+        if (!isNaN(expires)) {
+          parsed.expires = new Date(expires).toISOString();
+        }
+        break;
+      case "max-age":
+        if (/^-?\d+$/.test(attributeValue)) {
+          parsed.maxAge = parseInt(attributeValue, 10);
+        }
+        break;
+      case "samesite":
+        parsed.sameSite = attributeValue.toLowerCase();
+        break;
+      case "secure":
+        parsed.secure = true;
+        break;
+    }
+  });
+  return parsed;
+};
+
+/**
+ * Returns the path that a cookie without a Path attribute gets when it is
+ * set by the document at `url`, as per RFC 6265 section 5.1.4
+ *
+ * @param url
+ */
+export const defaultCookiePath = (url: string) => {
+  const path = new URL(url).pathname;
+  const lastSlash = path.lastIndexOf("/");
+  return lastSlash <= 0 ? "/" : path.slice(0, lastSlash);
+};
@@ -0,0 +1,85 @@
+interface Timed {
+  timeStamp: number;
+}
+
+interface PendingLookup<Query, Entry> {
+  query: Query;
+  resolve: (entry: Entry) => void;
+}
+
+/**
+ * Correlates entries recorded by one source (eg the page script) with the
+ * events of another (eg webRequest events) that look them up, by a match
+ * predicate and timing. Either side may arrive first.
+ */
+export class Correlator<Entry extends Timed, Query extends Timed> {
+  private readonly matches: (entry: Entry, query: Query) => boolean;
+  private readonly maxAgeMs: number;
+  private entries: Entry[] = [];
+  private pendingLookups: Array<PendingLookup<Query, Entry>> = [];
+
+  /**
+   * @param matches Whether the entry belongs to the looked up event
+   * @param maxAgeMs Maximum time between an entry being recorded and the
+   * corresponding event for the two to be correlated
+   */
+  constructor(
+    matches: (entry: Entry, query: Query) => boolean,
+    maxAgeMs: number,
+  ) {
+    this.matches = matches;
+    this.maxAgeMs = maxAgeMs;
+  }
+
+  public add(entry: Entry) {
+    const lookup = this.pendingLookups.find(pendingLookup =>
+      this.correlates(entry, pendingLookup.query),
+    );
+    if (lookup) {
+      this.pendingLookups.splice(this.pendingLookups.indexOf(lookup), 1);
+      lookup.resolve(entry);
+      return;
+    }
+    // Entries whose event never shows up (eg blocked requests) are dropped
+    // once they are too old to be correlated
+    this.entries = this.entries.filter(
+      recorded => entry.timeStamp - recorded.timeStamp <= this.maxAgeMs,
+    );
+    this.entries.push(entry);
+  }
+
+  /**
+   * Resolves with the earliest matching entry, or with undefined if none
+   * was recorded within the timeout
+   *
+   * @param query
+   * @param timeoutMs
+   */
+  public get(query: Query, timeoutMs: number): Promise<Entry | undefined> {
+    const entry = this.entries.find(recorded =>
+      this.correlates(recorded, query),
+    );
+    if (entry) {
+      this.entries.splice(this.entries.indexOf(entry), 1);
+      return Promise.resolve(entry);
+    }
+    return new Promise(resolve => {
+      const lookup = { query, resolve };
+      this.pendingLookups.push(lookup);
+      setTimeout(() => {
+        const index = this.pendingLookups.indexOf(lookup);
+        if (index > -1) {
+          this.pendingLookups.splice(index, 1);
+          resolve(undefined);
+        }
+      }, timeoutMs);
+    });
+  }
+
+  private correlates(entry: Entry, query: Query) {
+    return (
+      Math.abs(entry.timeStamp - query.timeStamp) <= this.maxAgeMs &&
+      this.matches(entry, query)
+    );
+  }
+}
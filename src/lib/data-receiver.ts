@@ -0,0 +1,51 @@
+import { TableName, TableRecords } from "../schema";
+
+/**
+ * The contract that all instruments use to hand over packets and log entries
+ * to the host extension
+ */
+export interface DataReceiver {
+  /**
+   * Saves a record to the table with the given name. The record type is
+   * checked against the table name at compile time.
+   */
+  saveRecord<T extends TableName>(table: T, record: TableRecords[T]): void;
+  /** Saves a response body, keyed by its content hash */
+  saveContent(content: string, contentHash: string): void;
+  logError(message: string): void;
+  logDebug(message: string): void;
+}
+
+/**
+ * A single call made to a DataReceiver, in a form that can be buffered,
+ * serialized or replayed against another DataReceiver
+ */
+export type DataReceiverEntry =
+  | {
+      type: "record";
+      table: TableName;
+      record: TableRecords[TableName];
+    }
+  | { type: "content"; content: string; contentHash: string }
+  | { type: "error"; message: string }
+  | { type: "debug"; message: string };
+
+export const replayDataReceiverEntry = (
+  entry: DataReceiverEntry,
+  dataReceiver: DataReceiver,
+) => {
+  switch (entry.type) {
+    case "record":
+      dataReceiver.saveRecord(entry.table, entry.record);
+      break;
+    case "content":
+      dataReceiver.saveContent(entry.content, entry.contentHash);
+      break;
+    case "error":
+      dataReceiver.logError(entry.message);
+      break;
+    case "debug":
+      dataReceiver.logDebug(entry.message);
+      break;
+  }
+};
@@ -0,0 +1,90 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { installFakeBrowser } from "../testing/fake-browser";
+import { DataReceiverEntry, replayDataReceiverEntry } from "./data-receiver";
+import { DeduplicatingDataReceiver } from "./deduplicating-data-receiver";
+import { InMemoryDataReceiver } from "./in-memory-data-receiver";
+
+// Provides TextEncoder
+installFakeBrowser();
+
+const recordingDataReceiver = (entries: DataReceiverEntry[]) => ({
+  saveRecord: (table, record) =>
+    entries.push({ type: "record", table, record }),
+  saveContent: (content, contentHash) =>
+    entries.push({ type: "content", content, contentHash }),
+  logError: message => entries.push({ type: "error", message }),
+  logDebug: message => entries.push({ type: "debug", message }),
+});
+
+const contentHashes = (entries: DataReceiverEntry[]) =>
+  entries
+    .filter(
+      (entry): entry is Extract<DataReceiverEntry, { type: "content" }> =>
+        entry.type === "content",
+    )
+    .map(entry => entry.contentHash);
+
+test("saves each content hash only once", t => {
+  const entries: DataReceiverEntry[] = [];
+  const deduplicating = new DeduplicatingDataReceiver(
+    recordingDataReceiver(entries),
+  );
+  deduplicating.saveContent("a", "hash-a");
+  deduplicating.saveContent("a", "hash-a");
+  deduplicating.saveContent("b", "hash-b");
+  deduplicating.saveContent("a", "hash-a");
+  t.deepEqual(contentHashes(entries), ["hash-a", "hash-b"]);
+  t.deepEqual(deduplicating.getStats(), { saved: 2, skipped: 2, hitRate: 0.5 });
+});
+
+test("saves differently decoded contents of the same hash", t => {
+  const entries: DataReceiverEntry[] = [];
+  const deduplicating = new DeduplicatingDataReceiver(
+    recordingDataReceiver(entries),
+  );
+  // The same bytes decoded as UTF-8 and as windows-1252
+  deduplicating.saveContent("héllo", "hash-a");
+  deduplicating.saveContent("hÃ©llo", "hash-a");
+  deduplicating.saveContent("héllo", "hash-a");
+  t.deepEqual(entries.map(entry => entry.type === "content" && entry.content), [
+    "héllo",
+    "hÃ©llo",
+  ]);
+  t.deepEqual(deduplicating.getStats(), {
+    saved: 2,
+    skipped: 1,
+    hitRate: 1 / 3,
+  });
+});
+
+test("forgets the least recently seen content hash", t => {
+  const entries: DataReceiverEntry[] = [];
+  const deduplicating = new DeduplicatingDataReceiver(
+    recordingDataReceiver(entries),
+    { maxEntries: 2 },
+  );
+  deduplicating.saveContent("a", "hash-a");
+  deduplicating.saveContent("b", "hash-b");
+  deduplicating.saveContent("a", "hash-a");
+  deduplicating.saveContent("c", "hash-c");
+  deduplicating.saveContent("a", "hash-a");
+  deduplicating.saveContent("b", "hash-b");
+  t.deepEqual(contentHashes(entries), ["hash-a", "hash-b", "hash-c", "hash-b"]);
+});
+
+test("reports and resets the hit rate", t => {
+  const inMemory = new InMemoryDataReceiver();
+  const deduplicating = new DeduplicatingDataReceiver(inMemory);
+  replayDataReceiverEntry(
+    { type: "content", content: "a", contentHash: "hash-a" },
+    deduplicating,
+  );
+  deduplicating.saveContent("a", "hash-a");
+  deduplicating.saveContent("a", "hash-a");
+  deduplicating.reportStats(1);
+  t.deepEqual(inMemory.debugMessages, [
+    "Content deduplication for crawl 1: skipped 2 of 3 response bodies (hit rate 66.7%)",
+  ]);
+  t.deepEqual(deduplicating.getStats(), { saved: 0, skipped: 0, hitRate: 0 });
+});
@@ -0,0 +1,122 @@
+import { TableName, TableRecords } from "../schema";
+import { DataReceiver } from "./data-receiver";
+import { Sha256 } from "./sha256";
+
+export interface DeduplicatingDataReceiverOptions {
+  /**
+   * Remember at most this many contents, forgetting the least recently seen
+   * ones first. Default is `10000`.
+   */
+  maxEntries?: number;
+}
+
+export interface ContentDeduplicationStats {
+  /** Number of saveContent calls that were passed on */
+  saved: number;
+  /** Number of saveContent calls skipped since the content was already saved */
+  skipped: number;
+  /** Share of saveContent calls that were skipped, between 0 and 1 */
+  hitRate: number;
+}
+
+/**
+ * Returns the SHA256 of the content as saved, to tell apart differently
+ * decoded copies of the same bytes
+ *
+ * @param content
+ */
+const savedContentHash = (content: string) => {
+  const hash = new Sha256();
+  hash.update(new TextEncoder().encode(content));
+  return hash.digest();
+};
+
+/**
+ * Passes on every call, except that content is only saved the first time it
+ * is seen. Scripts, fonts and the like are typically loaded over and over
+ * during a crawl, and there is no need to store their bodies more than once
+ * since the response records reference them by hash.
+ *
+ * The hash is taken over the raw bytes of a body, so content is recognized
+ * by its hash along with the hash of the content as saved. Bodies with the
+ * same bytes that were decoded from another charset or cut off at another
+ * size are thus saved as well.
+ */
+export class DeduplicatingDataReceiver implements DataReceiver {
+  private readonly dataReceiver: DataReceiver;
+  private readonly maxEntries: number;
+  // Map iterates in insertion order, so re-inserting a key when it is seen
+  // keeps the least recently seen content first
+  private readonly seenContents = new Map<string, true>();
+  private saved = 0;
+  private skipped = 0;
+
+  constructor(
+    dataReceiver: DataReceiver,
+    options: DeduplicatingDataReceiverOptions = {},
+  ) {
+    this.dataReceiver = dataReceiver;
+    this.maxEntries =
+      options.maxEntries !== undefined ? options.maxEntries : 10000;
+  }
+
+  public saveRecord<T extends TableName>(table: T, record: TableRecords[T]) {
+    this.dataReceiver.saveRecord(table, record);
+  }
+
+  public saveContent(content: string, contentHash: string) {
+    const key = contentHash + " " + savedContentHash(content);
+    if (this.seenContents.has(key)) {
+      this.seenContents.delete(key);
+      this.seenContents.set(key, true);
+      this.skipped++;
+      return;
+    }
+    this.seenContents.set(key, true);
+    if (this.seenContents.size > this.maxEntries) {
+      this.seenContents.delete(this.seenContents.keys().next().value);
+    }
+    this.saved++;
+    this.dataReceiver.saveContent(content, contentHash);
+  }
+
+  public logError(message: string) {
+    this.dataReceiver.logError(message);
+  }
+
+  public logDebug(message: string) {
+    this.dataReceiver.logDebug(message);
+  }
+
+  public getStats(): ContentDeduplicationStats {
+    const total = this.saved + this.skipped;
+    return {
+      saved: this.saved,
+      skipped: this.skipped,
+      hitRate: total > 0 ? this.skipped / total : 0,
+    };
+  }
+
+  /**
+   * Logs the hit rate since the last report as a debug message and resets
+   * the counters. Call this at the end of each crawl.
+   *
+   * @param crawlID
+   */
+  public reportStats(crawlID) {
+    const stats = this.getStats();
+    this.dataReceiver.logDebug(
+      "Content deduplication for crawl " +
+        crawlID +
+        ": skipped " +
+        stats.skipped +
+        " of " +
+        (stats.saved + stats.skipped) +
+        " response bodies (hit rate " +
+        (stats.hitRate * 100).toFixed(1) +
+        "%)",
+    );
+    this.saved = 0;
+    this.skipped = 0;
+  }
+}
@@ -0,0 +1,69 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { installFakeBrowser } from "../testing/fake-browser";
+import { HttpPostParser } from "./http-post-parser";
+import { InMemoryDataReceiver } from "./in-memory-data-receiver";
+
+// Provides TextDecoder and btoa
+installFakeBrowser();
+
+const bytes = (str: string) => new TextEncoder().encode(str).buffer;
+
+const parse = (requestBody, encodingType = "") => {
+  const dataReceiver = new InMemoryDataReceiver();
+  const details = { requestBody } as any;
+  return new HttpPostParser(details, dataReceiver).parsePostRequest(
+    encodingType,
+  );
+};
+
+test("passes form data on as is", t => {
+  t.deepEqual(parse({ formData: { a: ["1"] } }), {
+    post_body: { a: ["1"] },
+  });
+});
+
+test("parses url encoded form data split over several chunks", t => {
+  t.deepEqual(
+    parse(
+      { raw: [{ bytes: bytes("a=1&b=") }, { bytes: bytes("two+words") }] },
+      "application/x-www-form-urlencoded",
+    ),
+    { post_body: JSON.stringify({ a: "1", b: "two words" }) },
+  );
+});
+
+test("parses JSON bodies regardless of the encoding type", t => {
+  t.deepEqual(
+    parse({ raw: [{ bytes: bytes('{"a": [1, 2]}') }] }, "text/plain"),
+    {
+      post_body: '{"a":[1,2]}',
+    },
+  );
+});
+
+test("parses multipart bodies using the boundary parameter", t => {
+  const body =
+    "--boundary\r\n" +
+    'Content-Disposition: form-data; name="email"\r\n\r\n' +
+    "test@example.com\r\n" +
+    "--boundary--\r\n";
+  t.deepEqual(
+    parse(
+      { raw: [{ bytes: bytes(body) }] },
+      "multipart/form-data; boundary=boundary",
+    ),
+    { post_body: JSON.stringify({ email: "test@example.com" }) },
+  );
+});
+
+test("stores binary bodies base64-encoded", t => {
+  const binary = new Uint8Array([0x0a, 0x03, 0x00, 0xff, 0x01]).buffer;
+  t.deepEqual(parse({ raw: [{ bytes: binary }] }), {
+    post_body_raw: "CgMA/wE=",
+  });
+});
+
+test("skips uploaded files and empty bodies", t => {
+  t.deepEqual(parse({ raw: [{ file: "/tmp/upload" }] }), {});
+});
@@ -4,48 +4,34 @@ import {
   WebRequestOnBeforeRequestEventDetails,
   // WebRequestOnBeforeSendHeadersEventDetails,
 } from "../types/browser-web-request-event-details";
-import { escapeString } from "./string-utils";
-
-const components: any = {};
+import { DataReceiver } from "./data-receiver";
+import { decodeUtf8Text, encodeBase64, escapeString } from "./string-utils";
+import UploadData = browser.webRequest.UploadData;
 
 export interface ParsedPostRequest {
-  post_headers?: any;
   post_body?: any;
+  post_body_raw?: string;
 }
 
 export class HttpPostParser {
   // private readonly onBeforeSendHeadersEventDetails: WebRequestOnBeforeSendHeadersEventDetails;
   private readonly onBeforeRequestEventDetails: WebRequestOnBeforeRequestEventDetails;
-  private readonly dataReceiver;
-  private hasheaders: boolean;
-  private seekablestream;
-  private stream;
-  private postBody;
-  private postLines;
-  private postHeaders;
-  private body;
+  private readonly dataReceiver: DataReceiver;
 
   constructor(
     // onBeforeSendHeadersEventDetails: WebRequestOnBeforeSendHeadersEventDetails,
     onBeforeRequestEventDetails: WebRequestOnBeforeRequestEventDetails,
-    dataReceiver,
+    dataReceiver: DataReceiver,
   ) {
     // this.onBeforeSendHeadersEventDetails = onBeforeSendHeadersEventDetails;
     this.onBeforeRequestEventDetails = onBeforeRequestEventDetails;
     this.dataReceiver = dataReceiver;
-    /*
-    console.log(
-      "HttpPostParser",
-      // onBeforeSendHeadersEventDetails,
-      onBeforeRequestEventDetails,
-    );
-    */
   }
 
   /**
    * @param encodingType from the HTTP Request headers
    */
-  public parsePostRequest(encodingType) {
+  public parsePostRequest(encodingType): ParsedPostRequest {
     // const requestHeaders = this.onBeforeSendHeadersEventDetails.requestHeaders;
     const requestBody = this.onBeforeRequestEventDetails.requestBody;
     if (requestBody.error) {
@@ -59,166 +45,84 @@ export class HttpPostParser {
         post_body: requestBody.formData,
       };
     }
+    if (!requestBody.raw) {
+      return {};
+    }
 
-    // Return empty response and emit a debug message until we have all instrumentation converted
-    this.dataReceiver.logDebug(
-      "Exception: Instrumentation to parse POST requests without formData is not yet restored",
-    );
-    return {};
-
-    // TODO: Refactor to corresponding webext logic or discard
+    let postBytes: Uint8Array;
     try {
-      this.setupStream();
-      this.parseStream();
+      postBytes = this.concatenateUploadData(requestBody.raw);
     } catch (e) {
       this.dataReceiver.logError("Exception: Failed to parse POST: " + e);
       return {};
     }
 
-    const postBody = this.postBody;
-
-    if (!postBody) {
+    if (postBytes.length === 0) {
       // some scripts strangely sends empty post bodies (confirmed with the developer tools)
       return {};
     }
 
-    let isMultiPart = false; // encType: multipart/form-data
-    const postHeaders = this.postHeaders; // request headers from upload stream
-    // See, http://stackoverflow.com/questions/16548517/what-is-request-headers-from-upload-stream
-
-    // add encodingType from postHeaders if it's missing
-    if (!encodingType && postHeaders && "Content-Type" in postHeaders) {
-      encodingType = postHeaders["Content-Type"];
+    const decodedBody = decodeUtf8Text(postBytes);
+    if (decodedBody === null) {
+      // Binary payloads can not be stored as text, so we store them base64-encoded instead
+      return { post_body_raw: encodeBase64(postBytes) };
     }
-
-    if (encodingType.indexOf("multipart/form-data") !== -1) {
-      isMultiPart = true;
+    // strip off trailing \r\n's
+    const postBody = decodedBody.trim();
+    if (!postBody) {
+      return {};
     }
 
-    let jsonPostData = "";
-    let escapedJsonPostData = "";
-    if (isMultiPart) {
-      jsonPostData = this.parseMultiPartData(postBody /*, encodingType*/);
-      escapedJsonPostData = escapeString(jsonPostData);
-    } else {
-      jsonPostData = this.parseEncodedFormData(postBody, encodingType);
-      escapedJsonPostData = escapeString(jsonPostData);
+    if (!encodingType) {
+      encodingType = "";
     }
-    return { post_headers: postHeaders, post_body: escapedJsonPostData };
-  }
-  private setupStream() {
-    // TODO: Refactor to corresponding webext logic or discard (it may be relevant
-    // to parse the this.onBeforeRequestEventDetails.requestBody.raw.bytes property)
-    const stream = null;
-    // Scriptable Stream Constants
-    this.seekablestream = stream;
-    this.stream = components.classes[
-      "@mozilla.org/scriptableinputstream;1"
-    ].createInstance(components.interfaces.nsIScriptableInputStream);
-    this.stream.init(this.seekablestream);
-
-    this.postBody = "";
-    this.postLines = [];
-    this.postHeaders = [];
-    // Check if the upload stream has headers based on the stream type
-    // By "headers" we mean "Request Headers From Upload Stream", which are sent in the
-    // POST request body and separate from the standard HTTP headers:
-    // http://stackoverflow.com/questions/16548517/what-is-request-headers-from-upload-stream
 
-    // If this an unknown stream, we assume it doesn't contain headers
-    // We verified the list of streams that contain headers using various encoding types
-    // and payload formats tested in the TestPOSTInstrument class
-    // Also see, https://developer.mozilla.org/en-US/docs/Mozilla/Tech/XPCOM/Guide/Streams
-    this.hasheaders = false;
-    this.body = 0;
-    if (
-      this.seekablestream instanceof components.interfaces.nsIMIMEInputStream
-    ) {
-      // form submissions use nsIMIMEInputStream
-      this.seekablestream.QueryInterface(
-        components.interfaces.nsIMIMEInputStream,
-      );
-      this.hasheaders = true;
-      this.body = -1;
-    } else if (
-      this.seekablestream instanceof components.interfaces.nsIStringInputStream
-    ) {
-      // AJAX requests use nsIStringInputStream, except when the payload is "FormData"
-      this.seekablestream.QueryInterface(
-        components.interfaces.nsIStringInputStream,
-      );
-      this.hasheaders = true;
-      this.body = -1;
-    } else if (
-      0 &&
-      this.seekablestream instanceof
-        components.interfaces.nsIMultiplexInputStream
-    ) {
-      // AJAX requests with "FormData" payload use nsIMultiplexInputStream
-      this.seekablestream.QueryInterface(
-        components.interfaces.nsIMultiplexInputStream,
-      );
-      this.hasheaders = true;
-      this.body = -1;
-    } else {
-      // Let's keep an eye on unknown stream types, though we haven't seen any other stream types in our tests.
-      this.dataReceiver.logDebug("POST request parser: unknown stream type");
+    // JSON payloads are common for XHR/fetch requests and beacons, which
+    // frequently are sent as text/plain, so we try to parse any body that
+    // looks like JSON regardless of the encoding type
+    if (encodingType.indexOf("json") !== -1 || /^[\[{]/.test(postBody)) {
+      const parsedJsonData = this.parseJsonData(postBody);
+      if (parsedJsonData !== null) {
+        return { post_body: escapeString(parsedJsonData) };
+      }
     }
-  }
 
-  private rewind() {
-    this.seekablestream.seek(0, 0);
+    const jsonPostData =
+      encodingType.indexOf("multipart/form-data") !== -1
+        ? this.parseMultiPartData(postBody, encodingType)
+        : this.parseEncodedFormData(postBody, encodingType);
+    return { post_body: escapeString(jsonPostData) };
   }
 
-  private tell() {
-    return this.seekablestream.tell();
-  }
-
-  private readLine() {
-    let line = "";
-    const size = this.stream.available();
-    for (let i = 0; i < size; i++) {
-      const c = this.stream.read(1);
-      if (c === "\r") {
-        continue;
-      } else if (c === "\n") {
-        break;
-      } else {
-        line += c;
+  private concatenateUploadData(raw: UploadData[]): Uint8Array {
+    // Each element holds either a chunk of the body or a reference to an
+    // uploaded file. We only have access to the former.
+    const chunks: Uint8Array[] = [];
+    for (const uploadData of raw) {
+      if (uploadData.bytes) {
+        chunks.push(new Uint8Array(uploadData.bytes));
+      } else if (uploadData.file) {
+        this.dataReceiver.logDebug(
+          "POST request parser: skipping uploaded file " + uploadData.file,
+        );
       }
     }
-    return line;
+    const postBytes = new Uint8Array(
+      chunks.reduce((length, chunk) => length + chunk.length, 0),
+    );
+    let offset = 0;
+    for (const chunk of chunks) {
+      postBytes.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return postBytes;
   }
 
-  private extractUploadStreamHeaders() {
-    /*
-     * Extract "Request Headers From Upload Stream" from the POST request body.
-     * Unlike standard HTTP headers, these headers are sent in the request body
-     * and contain metadata such as the size and the encoding of the submitted data
-     * (e.g. multi-part form data)
-     * Also, seee http://stackoverflow.com/questions/16548517/what-is-request-headers-from-upload-stream
-     * A sample POST request body with upload stream headers (from the `test_record_post_data_multipart_formdata`)
-     *
-      Content-Type: multipart/form-data; boundary=---------------------------1809321333852408290275809649
-      Content-Length: 455
-
-      -----------------------------1809321333852408290275809649
-      Content-Disposition: form-data; name="email"
-      [snipped]
-     */
-    if (this.hasheaders) {
-      this.rewind();
-      let line = this.readLine();
-      while (line) {
-        const keyValue = line.match(/^([^:]+):\s?(.*)/);
-        if (keyValue) {
-          this.postHeaders[keyValue[1]] = keyValue[2];
-        } else {
-          this.postLines.push(line);
-        }
-        line = this.readLine();
-      }
-      this.body = this.tell();
+  private parseJsonData(postBody) {
+    try {
+      return JSON.stringify(JSON.parse(postBody));
+    } catch (e) {
+      return null;
     }
   }
 
@@ -305,7 +209,7 @@ export class HttpPostParser {
     }
   }
 
-  private parseMultiPartData(formData /*, encodingType*/) {
+  private parseMultiPartData(formData, encodingType) {
     /*
      * Parse POST bodies with encType "multipart/form-data encoded"
      * https://developer.mozilla.org/en-US/docs/Web/HTTP/Basics_of_HTTP/MIME_types#multipartform-data
@@ -324,7 +228,10 @@ export class HttpPostParser {
       */
     let boundary = "";
     const firstLine = formData.split("\r\n", 1)[0];
-    if (firstLine.startsWith("-----------------------------")) {
+    const boundaryMatch = encodingType.match(/boundary="?([^";]+)"?/);
+    if (boundaryMatch) {
+      boundary = "--" + boundaryMatch[1];
+    } else if (firstLine.startsWith("-----------------------------")) {
       boundary = firstLine;
     } else {
       return formData;
@@ -383,39 +290,4 @@ export class HttpPostParser {
       return {};
     }
   }
-
-  private parseStream() {
-    // Position the stream to the start of the body
-    if (this.body < 0 || this.seekablestream.tell() !== this.body) {
-      this.extractUploadStreamHeaders();
-    }
-
-    let size = this.stream.available();
-    if (size === 0 && this.body !== 0) {
-      // whoops, there weren't really headers..
-      this.rewind();
-      this.hasheaders = false;
-      size = this.stream.available();
-    }
-    let postString = "";
-    try {
-      // This is to avoid 'NS_BASE_STREAM_CLOSED' exception that may occurs
-      // See bug #188328.
-      for (let i = 0; i < size; i++) {
-        const c = this.stream.read(1);
-        c ? (postString += c) : (postString += "\0");
-      }
-    } catch (ex) {
-      this.dataReceiver.logError("Error parsing the POST request: " + ex);
-      return;
-    } finally {
-      this.rewind();
-    }
-
-    // strip off trailing \r\n's
-    while (postString.indexOf("\r\n") === postString.length - 2) {
-      postString = postString.substring(0, postString.length - 2);
-    }
-    this.postBody = postString.trim();
-  }
 }
@@ -0,0 +1,49 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { InMemoryDataReceiver } from "./in-memory-data-receiver";
+
+const redirect = {
+  old_request_id: "1",
+  time_stamp: "2018-01-01T00:00:00.000Z",
+};
+const operation = {
+  symbol: "window.name",
+  time_stamp: "2018-01-01T00:00:00.000Z",
+};
+
+test("keeps records apart by table", t => {
+  const receiver = new InMemoryDataReceiver();
+  t.deepEqual(receiver.getRecords("http_redirects"), []);
+  receiver.saveRecord("http_redirects", redirect);
+  receiver.saveRecord("javascript", operation);
+  receiver.saveRecord("http_redirects", { ...redirect, old_request_id: "2" });
+  t.deepEqual(
+    receiver.getRecords("http_redirects").map(record => record.old_request_id),
+    ["1", "2"],
+  );
+  t.deepEqual(receiver.getRecords("javascript"), [operation]);
+  t.deepEqual(receiver.getRecords("http_requests"), []);
+});
+
+test("keeps contents by hash along with errors and debug messages", t => {
+  const receiver = new InMemoryDataReceiver();
+  receiver.saveContent("body", "hash");
+  receiver.logError("error");
+  receiver.logDebug("debug");
+  t.deepEqual(receiver.contents, { hash: "body" });
+  t.deepEqual(receiver.errors, ["error"]);
+  t.deepEqual(receiver.debugMessages, ["debug"]);
+});
+
+test("forgets everything on clear", t => {
+  const receiver = new InMemoryDataReceiver();
+  receiver.saveRecord("http_redirects", redirect);
+  receiver.saveContent("body", "hash");
+  receiver.logError("error");
+  receiver.logDebug("debug");
+  receiver.clear();
+  t.deepEqual(receiver.getRecords("http_redirects"), []);
+  t.deepEqual(receiver.contents, {});
+  t.deepEqual(receiver.errors, []);
+  t.deepEqual(receiver.debugMessages, []);
+});
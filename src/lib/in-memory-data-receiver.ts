@@ -0,0 +1,43 @@
+import { TableName, TableRecords } from "../schema";
+import { DataReceiver } from "./data-receiver";
+
+/**
+ * Keeps everything it receives in memory. Useful for tests and for
+ * extensions that inspect the collected data before sending it elsewhere.
+ */
+export class InMemoryDataReceiver implements DataReceiver {
+  public records: { [T in TableName]?: Array<TableRecords[T]> } = {};
+  public contents: { [contentHash: string]: string } = {};
+  public errors: string[] = [];
+  public debugMessages: string[] = [];
+
+  public saveRecord<T extends TableName>(table: T, record: TableRecords[T]) {
+    this.getRecords(table).push(record);
+  }
+
+  public saveContent(content: string, contentHash: string) {
+    this.contents[contentHash] = content;
+  }
+
+  public logError(message: string) {
+    this.errors.push(message);
+  }
+
+  public logDebug(message: string) {
+    this.debugMessages.push(message);
+  }
+
+  public getRecords<T extends TableName>(table: T): Array<TableRecords[T]> {
+    if (!this.records[table]) {
+      this.records[table] = [];
+    }
+    return this.records[table] as Array<TableRecords[T]>;
+  }
+
+  public clear() {
+    this.records = {};
+    this.contents = {};
+    this.errors = [];
+    this.debugMessages = [];
+  }
+}
@@ -0,0 +1,110 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import {
+  allResourceTypes,
+  validateCookieInstrumentConfig,
+  validateDnsInstrumentConfig,
+  validateHttpInstrumentConfig,
+  validateJavascriptInstrumentConfig,
+  validateStorageInstrumentConfig,
+  validateWebSocketInstrumentConfig,
+} from "./instrument-config";
+
+test("fills in defaults", t => {
+  t.deepEqual(validateHttpInstrumentConfig({}), {
+    urls: ["<all_urls>"],
+    resourceTypes: allResourceTypes,
+    excludedResourceTypes: [],
+    saveContent: false,
+    excludeExtensionOrigins: true,
+    recordCallStacks: false,
+    callStackTimeout: 500,
+    maxPendingRequests: 5000,
+    recordTimings: false,
+    recordSecurityInfo: false,
+  });
+  t.deepEqual(validateCookieInstrumentConfig({}), {
+    urls: ["<all_urls>"],
+    recordScriptSets: false,
+    recordResponseSets: false,
+    snapshotCookies: false,
+  });
+  t.deepEqual(validateJavascriptInstrumentConfig({ tabId: 1 }), {
+    urls: ["<all_urls>"],
+    excludeExtensionOrigins: true,
+    tabId: 1,
+  });
+  t.deepEqual(validateWebSocketInstrumentConfig({}), {
+    urls: ["<all_urls>"],
+    savePayloads: true,
+  });
+  t.deepEqual(validateStorageInstrumentConfig({}), {
+    urls: ["<all_urls>"],
+    saveValues: true,
+  });
+  t.deepEqual(validateDnsInstrumentConfig({}), { urls: ["<all_urls>"] });
+});
+
+test("keeps defaults for options that are set to undefined", t => {
+  const config = validateHttpInstrumentConfig({
+    urls: undefined,
+    maxPendingRequests: undefined,
+    maxContentSize: undefined,
+  });
+  t.deepEqual(config.urls, ["<all_urls>"]);
+  t.is(config.maxPendingRequests, 5000);
+  t.false("maxContentSize" in config);
+  t.deepEqual(validateCookieInstrumentConfig({ snapshotCookies: undefined }), {
+    urls: ["<all_urls>"],
+    recordScriptSets: false,
+    recordResponseSets: false,
+    snapshotCookies: false,
+  });
+});
+
+test("removes excluded resource types", t => {
+  const config = validateHttpInstrumentConfig({
+    resourceTypes: ["script", "image", "font"],
+    excludedResourceTypes: ["image"],
+  });
+  t.deepEqual(config.resourceTypes, ["script", "font"]);
+});
+
+test("rejects invalid configs", t => {
+  t.throws(
+    () => validateHttpInstrumentConfig({ saveJavascript: true } as any),
+    /unknown option "saveJavascript"/,
+  );
+  t.throws(
+    () => validateHttpInstrumentConfig({ urls: [] }),
+    /urls must be a non-empty array/,
+  );
+  t.throws(
+    () => validateCookieInstrumentConfig({ urls: ["example.com"] }),
+    /Invalid CookieInstrument config: urls: Invalid match pattern/,
+  );
+  t.throws(
+    () => validateHttpInstrumentConfig({ saveContent: ["scripts"] } as any),
+    /saveContent contains the unknown resource type "scripts"/,
+  );
+  t.throws(
+    () =>
+      validateHttpInstrumentConfig({ excludedResourceTypes: allResourceTypes }),
+    /all resource types are excluded/,
+  );
+  t.throws(
+    () => validateJavascriptInstrumentConfig({ windowId: "1" } as any),
+    /windowId must be an integer/,
+  );
+});
+
+test("rejects a max content size that is not a positive integer", t => {
+  t.throws(
+    () => validateHttpInstrumentConfig({ maxContentSize: 0 }),
+    /maxContentSize must be a positive integer/,
+  );
+  t.is(
+    validateHttpInstrumentConfig({ maxContentSize: 1024 }).maxContentSize,
+    1024,
+  );
+});
@@ -0,0 +1,482 @@
+import { matchPatternToRegExp } from "./match-patterns";
+import ResourceType = browser.webRequest.ResourceType;
+
+export const allResourceTypes: ResourceType[] = [
+  "beacon",
+  "csp_report",
+  "font",
+  "image",
+  "imageset",
+  "main_frame",
+  "media",
+  "object",
+  "object_subrequest",
+  "ping",
+  "script",
+  // "speculative",
+  "stylesheet",
+  "sub_frame",
+  "web_manifest",
+  "websocket",
+  "xbl",
+  "xml_dtd",
+  "xmlhttprequest",
+  "xslt",
+  "other",
+];
+
+export interface HttpInstrumentConfig {
+  /** Match patterns of the request URLs to instrument. Default is `["<all_urls>"]`. */
+  urls?: string[];
+  /** Resource types to instrument. Default is all resource types. */
+  resourceTypes?: ResourceType[];
+  /** Resource types to leave out, even if listed in `resourceTypes`. Default is none. */
+  excludedResourceTypes?: ResourceType[];
+  /**
+   * Set to `true` to save all response bodies, or to the resource types to
+   * save response bodies for (eg `["script"]`). Default is `false`.
+   */
+  saveContent?: boolean | ResourceType[];
+  /**
+   * Save at most this many bytes of each response body. The content hash
+   * is still computed over the complete body, and the response record
+   * notes the full size and that the content was truncated. Default is no
+   * limit.
+   */
+  maxContentSize?: number;
+  /** Only instrument requests made in this tab. Default is all tabs. */
+  tabId?: number;
+  /** Only instrument requests made in this window. Default is all windows. */
+  windowId?: number;
+  /** Ignore requests that stem from extensions. Default is `true`. */
+  excludeExtensionOrigins?: boolean;
+  /**
+   * Save the call stacks of requests initiated by scripts. Requires the
+   * page script to be injected with `recordRequestCallStacks` enabled.
+   * Default is `false`.
+   */
+  recordCallStacks?: boolean;
+  /**
+   * Wait at most this many milliseconds for the call stack of a request,
+   * which may arrive shortly after the request itself. Only requests of
+   * frames that the page script records call stacks in are held up.
+   * Default is `500`.
+   */
+  callStackTimeout?: number;
+  /**
+   * Keep track of at most this many requests that have not completed or
+   * failed yet, forgetting the oldest ones first. A forgotten request that
+   * completes after all is still recorded, but without its response body.
+   * Default is `5000`.
+   */
+  maxPendingRequests?: number;
+  /**
+   * Save when each phase of every completed request happened to
+   * `http_timings`. Default is `false`.
+   */
+  recordTimings?: boolean;
+  /**
+   * Save the TLS protocol, cipher suite and certificate chain of the first
+   * secure request to each host to `tls_info`. Holds up each such request
+   * until the info has been read. Default is `false`.
+   */
+  recordSecurityInfo?: boolean;
+}
+
+export interface CookieInstrumentConfig {
+  /** Match patterns of the cookie URLs to instrument. Default is `["<all_urls>"]`. */
+  urls?: string[];
+  /**
+   * Record the cookie strings that scripts write to document.cookie to
+   * `javascript_cookie_sets`, and tag the resulting cookie changes with the
+   * script. Requires the page script to log sets of `window.document.cookie`,
+   * as the default instrumentation spec does. Default is `false`.
+   */
+  recordScriptSets?: boolean;
+  /**
+   * Tag the cookie changes caused by Set-Cookie response headers with the
+   * request_id of the response. Default is `false`.
+   */
+  recordResponseSets?: boolean;
+  /**
+   * Save all cookies in all cookie stores to `cookie_snapshots` when the
+   * instrument starts, eg when crawling with a reused profile. Snapshots can
+   * also be taken on demand with `saveCookieSnapshot`. Default is `false`.
+   */
+  snapshotCookies?: boolean;
+}
+
+export interface JavascriptInstrumentConfig {
+  /** Match patterns of the document URLs to instrument. Default is `["<all_urls>"]`. */
+  urls?: string[];
+  /** Only instrument calls made in this tab. Default is all tabs. */
+  tabId?: number;
+  /** Only instrument calls made in this window. Default is all windows. */
+  windowId?: number;
+  /** Ignore calls made in extension pages. Default is `true`. */
+  excludeExtensionOrigins?: boolean;
+}
+
+export interface WebSocketInstrumentConfig {
+  /** Match patterns of the WebSocket URLs to instrument. Default is `["<all_urls>"]`. */
+  urls?: string[];
+  /** Save the payloads of frames. Default is `true`. */
+  savePayloads?: boolean;
+  /** Save at most this many bytes of each payload. Default is no limit. */
+  maxPayloadSize?: number;
+}
+
+export interface StorageInstrumentConfig {
+  /** Match patterns of the document URLs to instrument. Default is `["<all_urls>"]`. */
+  urls?: string[];
+  /** Save the stored values. Default is `true`. */
+  saveValues?: boolean;
+  /**
+   * Save at most this many bytes (as UTF-8, like value_size) of each value.
+   * Default is no limit.
+   */
+  maxValueSize?: number;
+}
+
+export interface DnsInstrumentConfig {
+  /** Match patterns of the request URLs whose hostnames to resolve. Default is `["<all_urls>"]`. */
+  urls?: string[];
+}
+
+const assertKnownOptions = (instrument: string, config, options: string[]) => {
+  if (typeof config !== "object" || config === null) {
+    throw new Error("Invalid " + instrument + " config: expected an object");
+  }
+  for (const option of Object.keys(config)) {
+    if (options.indexOf(option) === -1) {
+      throw new Error(
+        "Invalid " +
+          instrument +
+          " config: unknown option " +
+          JSON.stringify(option) +
+          " (expected one of " +
+          options.join(", ") +
+          ")",
+      );
+    }
+  }
+};
+
+/**
+ * Returns a copy of the defaults with the options of the config applied.
+ * Options that are explicitly set to undefined keep their default.
+ *
+ * @param defaults
+ * @param config
+ */
+const withDefaults = <T>(defaults: T, config: T): T => {
+  const merged = { ...defaults };
+  for (const option of Object.keys(config)) {
+    if (config[option] !== undefined) {
+      merged[option] = config[option];
+    }
+  }
+  return merged;
+};
+
+const assertMatchPatterns = (instrument: string, option: string, urls) => {
+  if (!Array.isArray(urls) || urls.length === 0) {
+    throw new Error(
+      "Invalid " +
+        instrument +
+        " config: " +
+        option +
+        " must be a non-empty array of match patterns",
+    );
+  }
+  for (const url of urls) {
+    try {
+      matchPatternToRegExp(url);
+    } catch (e) {
+      throw new Error(
+        "Invalid " + instrument + " config: " + option + ": " + e.message,
+      );
+    }
+  }
+};
+
+const assertResourceTypes = (
+  instrument: string,
+  option: string,
+  resourceTypes,
+) => {
+  if (!Array.isArray(resourceTypes)) {
+    throw new Error(
+      "Invalid " +
+        instrument +
+        " config: " +
+        option +
+        " must be an array of resource types",
+    );
+  }
+  for (const resourceType of resourceTypes) {
+    if (allResourceTypes.indexOf(resourceType) === -1) {
+      throw new Error(
+        "Invalid " +
+          instrument +
+          " config: " +
+          option +
+          " contains the unknown resource type " +
+          JSON.stringify(resourceType),
+      );
+    }
+  }
+};
+
+const assertInteger = (instrument: string, option: string, value) => {
+  if (value !== undefined && !Number.isInteger(value)) {
+    throw new Error(
+      "Invalid " + instrument + " config: " + option + " must be an integer",
+    );
+  }
+};
+
+const assertPositiveInteger = (instrument: string, option: string, value) => {
+  if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+    throw new Error(
+      "Invalid " +
+        instrument +
+        " config: " +
+        option +
+        " must be a positive integer",
+    );
+  }
+};
+
+const assertBoolean = (instrument: string, option: string, value) => {
+  if (value !== undefined && typeof value !== "boolean") {
+    throw new Error(
+      "Invalid " + instrument + " config: " + option + " must be a boolean",
+    );
+  }
+};
+
+/**
+ * Validates the config and returns a copy with all defaults filled in.
+ * `resourceTypes` of the returned config has the excluded resource types
+ * removed.
+ *
+ * @param config
+ */
+export const validateHttpInstrumentConfig = (
+  config: HttpInstrumentConfig,
+): HttpInstrumentConfig => {
+  const instrument = "HttpInstrument";
+  assertKnownOptions(instrument, config, [
+    "urls",
+    "resourceTypes",
+    "excludedResourceTypes",
+    "saveContent",
+    "maxContentSize",
+    "tabId",
+    "windowId",
+    "excludeExtensionOrigins",
+    "recordCallStacks",
+    "callStackTimeout",
+    "maxPendingRequests",
+    "recordTimings",
+    "recordSecurityInfo",
+  ]);
+  const validated = withDefaults<HttpInstrumentConfig>(
+    {
+      urls: ["<all_urls>"],
+      resourceTypes: allResourceTypes,
+      excludedResourceTypes: [],
+      saveContent: false,
+      excludeExtensionOrigins: true,
+      recordCallStacks: false,
+      callStackTimeout: 500,
+      maxPendingRequests: 5000,
+      recordTimings: false,
+      recordSecurityInfo: false,
+    },
+    config,
+  );
+  assertMatchPatterns(instrument, "urls", validated.urls);
+  assertResourceTypes(instrument, "resourceTypes", validated.resourceTypes);
+  assertResourceTypes(
+    instrument,
+    "excludedResourceTypes",
+    validated.excludedResourceTypes,
+  );
+  if (typeof validated.saveContent !== "boolean") {
+    assertResourceTypes(instrument, "saveContent", validated.saveContent);
+  }
+  assertPositiveInteger(instrument, "maxContentSize", validated.maxContentSize);
+  assertInteger(instrument, "tabId", validated.tabId);
+  assertInteger(instrument, "windowId", validated.windowId);
+  assertBoolean(
+    instrument,
+    "excludeExtensionOrigins",
+    validated.excludeExtensionOrigins,
+  );
+  assertBoolean(instrument, "recordCallStacks", validated.recordCallStacks);
+  assertPositiveInteger(
+    instrument,
+    "callStackTimeout",
+    validated.callStackTimeout,
+  );
+  assertPositiveInteger(
+    instrument,
+    "maxPendingRequests",
+    validated.maxPendingRequests,
+  );
+  assertBoolean(instrument, "recordTimings", validated.recordTimings);
+  assertBoolean(instrument, "recordSecurityInfo", validated.recordSecurityInfo);
+
+  validated.resourceTypes = validated.resourceTypes.filter(
+    resourceType =>
+      validated.excludedResourceTypes.indexOf(resourceType) === -1,
+  );
+  if (validated.resourceTypes.length === 0) {
+    throw new Error(
+      "Invalid " +
+        instrument +
+        " config: all resource types are excluded, so nothing would be instrumented",
+    );
+  }
+  return validated;
+};
+
+/**
+ * Validates the config and returns a copy with all defaults filled in
+ *
+ * @param config
+ */
+export const validateCookieInstrumentConfig = (
+  config: CookieInstrumentConfig,
+): CookieInstrumentConfig => {
+  const instrument = "CookieInstrument";
+  assertKnownOptions(instrument, config, [
+    "urls",
+    "recordScriptSets",
+    "recordResponseSets",
+    "snapshotCookies",
+  ]);
+  const validated = withDefaults<CookieInstrumentConfig>(
+    {
+      urls: ["<all_urls>"],
+      recordScriptSets: false,
+      recordResponseSets: false,
+      snapshotCookies: false,
+    },
+    config,
+  );
+  assertMatchPatterns(instrument, "urls", validated.urls);
+  assertBoolean(instrument, "recordScriptSets", validated.recordScriptSets);
+  assertBoolean(instrument, "recordResponseSets", validated.recordResponseSets);
+  assertBoolean(instrument, "snapshotCookies", validated.snapshotCookies);
+  return validated;
+};
+
+/**
+ * Validates the config and returns a copy with all defaults filled in
+ *
+ * @param config
+ */
+export const validateJavascriptInstrumentConfig = (
+  config: JavascriptInstrumentConfig,
+): JavascriptInstrumentConfig => {
+  const instrument = "JavascriptInstrument";
+  assertKnownOptions(instrument, config, [
+    "urls",
+    "tabId",
+    "windowId",
+    "excludeExtensionOrigins",
+  ]);
+  const validated = withDefaults<JavascriptInstrumentConfig>(
+    {
+      urls: ["<all_urls>"],
+      excludeExtensionOrigins: true,
+    },
+    config,
+  );
+  assertMatchPatterns(instrument, "urls", validated.urls);
+  assertInteger(instrument, "tabId", validated.tabId);
+  assertInteger(instrument, "windowId", validated.windowId);
+  assertBoolean(
+    instrument,
+    "excludeExtensionOrigins",
+    validated.excludeExtensionOrigins,
+  );
+  return validated;
+};
+
+/**
+ * Validates the config and returns a copy with all defaults filled in
+ *
+ * @param config
+ */
+export const validateWebSocketInstrumentConfig = (
+  config: WebSocketInstrumentConfig,
+): WebSocketInstrumentConfig => {
+  const instrument = "WebSocketInstrument";
+  assertKnownOptions(instrument, config, [
+    "urls",
+    "savePayloads",
+    "maxPayloadSize",
+  ]);
+  const validated = withDefaults<WebSocketInstrumentConfig>(
+    {
+      urls: ["<all_urls>"],
+      savePayloads: true,
+    },
+    config,
+  );
+  assertMatchPatterns(instrument, "urls", validated.urls);
+  assertBoolean(instrument, "savePayloads", validated.savePayloads);
+  assertPositiveInteger(instrument, "maxPayloadSize", validated.maxPayloadSize);
+  return validated;
+};
+
+/**
+ * Validates the config and returns a copy with all defaults filled in
+ *
+ * @param config
+ */
+export const validateStorageInstrumentConfig = (
+  config: StorageInstrumentConfig,
+): StorageInstrumentConfig => {
+  const instrument = "StorageInstrument";
+  assertKnownOptions(instrument, config, [
+    "urls",
+    "saveValues",
+    "maxValueSize",
+  ]);
+  const validated = withDefaults<StorageInstrumentConfig>(
+    {
+      urls: ["<all_urls>"],
+      saveValues: true,
+    },
+    config,
+  );
+  assertMatchPatterns(instrument, "urls", validated.urls);
+  assertBoolean(instrument, "saveValues", validated.saveValues);
+  assertPositiveInteger(instrument, "maxValueSize", validated.maxValueSize);
+  return validated;
+};
+
+/**
+ * Validates the config and returns a copy with all defaults filled in
+ *
+ * @param config
+ */
+export const validateDnsInstrumentConfig = (
+  config: DnsInstrumentConfig,
+): DnsInstrumentConfig => {
+  const instrument = "DnsInstrument";
+  assertKnownOptions(instrument, config, ["urls"]);
+  const validated = withDefaults<DnsInstrumentConfig>(
+    {
+      urls: ["<all_urls>"],
+    },
+    config,
+  );
+  assertMatchPatterns(instrument, "urls", validated.urls);
+  return validated;
+};
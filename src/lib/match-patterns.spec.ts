@@ -0,0 +1,31 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { matchPatternToRegExp, urlMatchesPatterns } from "./match-patterns";
+
+test("<all_urls> matches all supported schemes", t => {
+  t.true(urlMatchesPatterns("https://example.com/", ["<all_urls>"]));
+  t.true(urlMatchesPatterns("file:///tmp/index.html", ["<all_urls>"]));
+  t.false(urlMatchesPatterns("moz-extension://abc/page.html", ["<all_urls>"]));
+});
+
+test("wildcard schemes, hosts and paths", t => {
+  const patterns = ["*://*.example.com/ads/*"];
+  t.true(urlMatchesPatterns("https://example.com/ads/1.js", patterns));
+  t.true(urlMatchesPatterns("http://cdn.example.com:8080/ads/", patterns));
+  t.false(urlMatchesPatterns("https://example.com/content.js", patterns));
+  t.false(urlMatchesPatterns("https://notexample.com/ads/1.js", patterns));
+  t.false(urlMatchesPatterns("ftp://example.com/ads/1.js", patterns));
+});
+
+test("literal hosts and paths are escaped", t => {
+  const regExp = matchPatternToRegExp("https://a.b/c?d=*");
+  t.true(regExp.test("https://a.b/c?d=1"));
+  t.false(regExp.test("https://axb/c?d=1"));
+});
+
+test("invalid match patterns throw", t => {
+  t.throws(() => matchPatternToRegExp("example.com"), /Invalid match pattern/);
+  t.throws(() => matchPatternToRegExp("https://"), /Invalid match pattern/);
+  t.throws(() => matchPatternToRegExp("https:///path"), /host is required/);
+  t.throws(() => matchPatternToRegExp("https://*foo.com/"), /Invalid/);
+});
@@ -0,0 +1,70 @@
+/**
+ * Helpers for matching URLs against WebExtension match patterns outside of
+ * the APIs that accept them natively (eg cookie changes and messages from
+ * content scripts)
+ * See: https://developer.mozilla.org/en-US/docs/Mozilla/Add-ons/WebExtensions/Match_patterns
+ */
+
+const escapeRegExp = (str: string) =>
+  str.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Converts a match pattern to an equivalent regular expression.
+ * Throws if the match pattern is invalid.
+ *
+ * @param pattern
+ */
+export const matchPatternToRegExp = (pattern: string): RegExp => {
+  if (pattern === "<all_urls>") {
+    return /^(https?|wss?|ftp|file):\/\//;
+  }
+  const match = /^(\*|https?|wss?|ftp|file):\/\/(\*|\*\.[^*/]+|[^*/]+)?(\/.*)$/.exec(
+    pattern,
+  );
+  if (!match) {
+    throw new Error("Invalid match pattern: " + JSON.stringify(pattern));
+  }
+  const scheme = match[1];
+  const host = match[2] || "";
+  const path = match[3];
+  if (!host && scheme !== "file") {
+    throw new Error(
+      "Invalid match pattern: " +
+        JSON.stringify(pattern) +
+        " (a host is required for the " +
+        scheme +
+        " scheme)",
+    );
+  }
+
+  const schemeRegExp = scheme === "*" ? "(https?|wss?)" : scheme;
+  let hostRegExp;
+  if (host === "*") {
+    hostRegExp = "[^/]+";
+  } else if (host.startsWith("*.")) {
+    hostRegExp = "([^/]+\\.)?" + escapeRegExp(host.slice(2)) + "(:\\d+)?";
+  } else {
+    hostRegExp = escapeRegExp(host) + (host ? "(:\\d+)?" : "");
+  }
+  const pathRegExp = path
+    .split("*")
+    .map(escapeRegExp)
+    .join(".*");
+  return new RegExp("^" + schemeRegExp + "://" + hostRegExp + pathRegExp + "$");
+};
+
+const regExpCache: { [pattern: string]: RegExp } = {};
+
+/**
+ * Returns true if the url matches at least one of the match patterns
+ *
+ * @param url
+ * @param patterns
+ */
+export const urlMatchesPatterns = (url: string, patterns: string[]) =>
+  patterns.some(pattern => {
+    if (!regExpCache[pattern]) {
+      regExpCache[pattern] = matchPatternToRegExp(pattern);
+    }
+    return regExpCache[pattern].test(url);
+  });
@@ -32,8 +32,12 @@ export class PendingResponse {
   }
   public addResponseResponseBodyListener(
     details: WebRequestOnBeforeRequestEventDetails,
+    maxContentSize?: number,
   ) {
-    this.responseBodyListener = new ResponseBodyListener(details);
+    this.responseBodyListener = new ResponseBodyListener(
+      details,
+      maxContentSize,
+    );
   }
   public resolved() {
     return Promise.all([
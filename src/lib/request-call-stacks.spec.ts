@@ -0,0 +1,42 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { RequestCallStacks } from "./request-call-stacks";
+
+test("call stack recorded before the request", async t => {
+  const requestCallStacks = new RequestCallStacks();
+  requestCallStacks.add(
+    1,
+    "https://a.com/1#x",
+    "first@https://a.com/a.js:1:1",
+    1000,
+  );
+  requestCallStacks.add(
+    1,
+    "https://a.com/1",
+    "second@https://a.com/a.js:2:1",
+    1010,
+  );
+  t.is(
+    await requestCallStacks.get(1, "https://a.com/1", 1020, 10),
+    "first@https://a.com/a.js:1:1",
+  );
+  t.is(
+    await requestCallStacks.get(1, "https://a.com/1", 1030, 10),
+    "second@https://a.com/a.js:2:1",
+  );
+});
+
+test("call stack recorded after the request", async t => {
+  const requestCallStacks = new RequestCallStacks();
+  const callStack = requestCallStacks.get(1, "https://a.com/1", 1000, 1000);
+  requestCallStacks.add(1, "https://a.com/1", "stack", 1001);
+  t.is(await callStack, "stack");
+});
+
+test("no call stack for other tabs, urls or times", async t => {
+  const requestCallStacks = new RequestCallStacks(100);
+  requestCallStacks.add(2, "https://a.com/1", "other tab", 1000);
+  requestCallStacks.add(1, "https://a.com/2", "other url", 1000);
+  requestCallStacks.add(1, "https://a.com/1", "too old", 500);
+  t.is(await requestCallStacks.get(1, "https://a.com/1", 1000, 10), undefined);
+});
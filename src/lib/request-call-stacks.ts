@@ -0,0 +1,68 @@
+import { Correlator } from "./correlator";
+
+interface RecordedCallStack {
+  tabId: number;
+  url: string;
+  callStack: string;
+  timeStamp: number;
+}
+
+interface CallStackQuery {
+  tabId: number;
+  url: string;
+  timeStamp: number;
+}
+
+const stripFragment = (url: string) => url.split("#")[0];
+
+/**
+ * Correlates the call stacks recorded by the page script when scripts
+ * initiate requests with the corresponding webRequest events, by tab, url
+ * and timing. Either side may arrive first.
+ */
+export class RequestCallStacks {
+  private readonly correlator: Correlator<RecordedCallStack, CallStackQuery>;
+
+  /**
+   * @param maxAgeMs Maximum time between a call stack being recorded and the
+   * corresponding request for the two to be correlated
+   */
+  constructor(maxAgeMs = 5000) {
+    this.correlator = new Correlator(
+      (recorded, query) =>
+        recorded.tabId === query.tabId && recorded.url === query.url,
+      maxAgeMs,
+    );
+  }
+
+  public add(tabId: number, url: string, callStack: string, timeStamp: number) {
+    this.correlator.add({
+      tabId,
+      url: stripFragment(url),
+      callStack,
+      timeStamp,
+    });
+  }
+
+  /**
+   * Resolves with the call stack of the earliest matching call, or with
+   * undefined if none was recorded within the timeout
+   *
+   * @param tabId
+   * @param url
+   * @param timeStamp
+   * @param timeoutMs
+   */
+  public async get(
+    tabId: number,
+    url: string,
+    timeStamp: number,
+    timeoutMs: number,
+  ): Promise<string | undefined> {
+    const recorded = await this.correlator.get(
+      { tabId, url: stripFragment(url), timeStamp },
+      timeoutMs,
+    );
+    return recorded ? recorded.callStack : undefined;
+  }
+}
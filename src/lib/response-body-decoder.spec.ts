@@ -0,0 +1,132 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { installFakeBrowser } from "../testing/fake-browser";
+import {
+  decodeResponseBody,
+  parseContentType,
+  sniffMetaCharset,
+} from "./response-body-decoder";
+
+// Provides TextDecoder and btoa
+installFakeBrowser();
+
+const utf8 = (str: string) => new TextEncoder().encode(str);
+
+const utf16le = (str: string) => {
+  const bytes = new Uint8Array(str.length * 2);
+  for (let i = 0; i < str.length; i++) {
+    bytes[i * 2] = str.charCodeAt(i) & 0xff;
+    bytes[i * 2 + 1] = str.charCodeAt(i) >> 8;
+  }
+  return bytes;
+};
+
+test("parses the MIME type and charset of a Content-Type header", t => {
+  t.deepEqual(parseContentType('text/html; charset="Shift_JIS"'), {
+    mimeType: "text/html",
+    charset: "shift_jis",
+  });
+  t.deepEqual(parseContentType("Image/PNG"), { mimeType: "image/png" });
+  t.deepEqual(parseContentType(""), {});
+});
+
+test("sniffs the charset declared by a meta element", t => {
+  t.is(
+    sniffMetaCharset(utf8('<html><head><meta charset="Shift_JIS">')),
+    "shift_jis",
+  );
+  t.is(
+    sniffMetaCharset(
+      utf8(
+        '<meta http-equiv="Content-Type" content="text/html; charset=windows-1252">',
+      ),
+    ),
+    "windows-1252",
+  );
+  t.is(sniffMetaCharset(utf8("<html><head><title>")), undefined);
+  // Declarations after the first 1024 bytes are not looked for
+  t.is(
+    sniffMetaCharset(utf8(" ".repeat(1024) + '<meta charset="Shift_JIS">')),
+    undefined,
+  );
+});
+
+test("decodes text with the charset of the Content-Type header", t => {
+  t.deepEqual(
+    decodeResponseBody(utf16le("grüße"), "text/plain; charset=UTF-16LE"),
+    { content: "grüße", encoding: "utf-16le", mimeType: "text/plain" },
+  );
+  t.deepEqual(decodeResponseBody(utf8('{"a":"ü"}'), "application/ld+json"), {
+    content: '{"a":"ü"}',
+    encoding: "utf-8",
+    mimeType: "application/ld+json",
+  });
+});
+
+test("prefers a byte order mark over the declared charsets", t => {
+  const body = new Uint8Array([0xff, 0xfe, ...Array.from(utf16le("hi"))]);
+  t.is(
+    decodeResponseBody(body, "text/html; charset=utf-8").encoding,
+    "utf-16le",
+  );
+});
+
+test("prefers the header charset over the meta charset", t => {
+  const html = '<meta charset="utf-16le">grüße';
+  t.deepEqual(decodeResponseBody(utf8(html), "text/html; charset=utf-8"), {
+    content: html,
+    encoding: "utf-8",
+    mimeType: "text/html",
+  });
+  t.is(decodeResponseBody(utf8(html), "text/html").encoding, "utf-16le");
+});
+
+test("ignores unknown charsets", t => {
+  t.deepEqual(
+    decodeResponseBody(utf8('<meta charset="bogus">ü'), "text/html"),
+    {
+      content: '<meta charset="bogus">ü',
+      encoding: "utf-8",
+      mimeType: "text/html",
+    },
+  );
+});
+
+test("drops the incomplete last character of truncated bodies", t => {
+  // "ü" is encoded as two bytes in UTF-8, and "€" as three
+  const cut = (str: string, by: number) => {
+    const bytes = utf8(str);
+    return bytes.subarray(0, bytes.length - by);
+  };
+  t.is(decodeResponseBody(cut("grüß€", 2), "text/plain", true).content, "grüß");
+  t.deepEqual(decodeResponseBody(cut("grü", 1), undefined, true), {
+    content: "gr",
+    encoding: "utf-8",
+  });
+  t.is(
+    decodeResponseBody(
+      utf16le("grü").subarray(0, 5),
+      "text/plain; charset=utf-16le",
+      true,
+    ).content,
+    "gr",
+  );
+});
+
+test("base64-encodes binary bodies", t => {
+  t.deepEqual(
+    decodeResponseBody(new Uint8Array([0x89, 0x50, 0x4e, 0x47]), "image/png"),
+    { content: "iVBORw==", encoding: "base64", mimeType: "image/png" },
+  );
+});
+
+test("decodes bodies without a MIME type if they are UTF-8 text", t => {
+  t.deepEqual(decodeResponseBody(utf8("grüße")), {
+    content: "grüße",
+    encoding: "utf-8",
+  });
+  t.deepEqual(decodeResponseBody(new Uint8Array([0xff, 0x00, 0x01])), {
+    content: "/wAB",
+    encoding: "base64",
+  });
+});
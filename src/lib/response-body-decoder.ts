@@ -0,0 +1,154 @@
+import { decodeUtf8Text, encodeBase64 } from "./string-utils";
+
+export interface DecodedResponseBody {
+  /** The body as text, or base64-encoded if it is binary */
+  content: string;
+  /**
+   * The charset the body was decoded from, eg "utf-8" or "shift_jis", or
+   * "base64" if it is binary
+   */
+  encoding: string;
+  /** The MIME type declared by the Content-Type header, if any */
+  mimeType?: string;
+}
+
+/**
+ * Only this many bytes are searched for a `<meta>` charset declaration, as
+ * browsers do
+ */
+const metaSniffingLength = 1024;
+
+/**
+ * Returns the lowercased MIME type and charset of a Content-Type header
+ * value, eg `{ mimeType: "text/html", charset: "shift_jis" }` for
+ * `text/html; charset="Shift_JIS"`
+ *
+ * @param contentType
+ */
+export const parseContentType = (
+  contentType: string,
+): { mimeType?: string; charset?: string } => {
+  const [mimeType, ...parameters] = contentType.split(";");
+  const parsed: { mimeType?: string; charset?: string } = {};
+  if (mimeType.trim()) {
+    parsed.mimeType = mimeType.trim().toLowerCase();
+  }
+  for (const parameter of parameters) {
+    const [name, value] = parameter.split("=");
+    if (name.trim().toLowerCase() === "charset" && value) {
+      parsed.charset = value
+        .trim()
+        .replace(/^"|"$/g, "")
+        .toLowerCase();
+    }
+  }
+  return parsed;
+};
+
+const isTextMimeType = (mimeType: string) =>
+  /^text\/|[\/+](json|xml)$|javascript|ecmascript/.test(mimeType);
+
+/**
+ * Returns the charset signalled by a byte order mark, if any
+ *
+ * @param content
+ */
+const bomCharset = (content: Uint8Array) => {
+  if (content[0] === 0xef && content[1] === 0xbb && content[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (content[0] === 0xff && content[1] === 0xfe) {
+    return "utf-16le";
+  }
+  if (content[0] === 0xfe && content[1] === 0xff) {
+    return "utf-16be";
+  }
+  return undefined;
+};
+
+/**
+ * Returns the charset declared by a `<meta charset>` or `<meta
+ * http-equiv="Content-Type">` element near the start of an HTML document
+ *
+ * @param content
+ */
+export const sniffMetaCharset = (content: Uint8Array): string => {
+  // The declaration itself is ASCII in all charsets that browsers sniff
+  const head = String.fromCharCode.apply(
+    null,
+    content.subarray(0, metaSniffingLength),
+  );
+  const match = /<meta[^>]+charset\s*=\s*["']?\s*([\w.:-]+)/i.exec(head);
+  return match ? match[1].toLowerCase() : undefined;
+};
+
+/**
+ * Returns a decoder for the first of the charsets that is known, in the
+ * order of precedence that browsers use
+ *
+ * @param charsets
+ */
+const getDecoder = (charsets: string[]) => {
+  for (const charset of charsets) {
+    if (!charset) {
+      continue;
+    }
+    try {
+      return new TextDecoder(charset);
+    } catch (e) {
+      // Unknown charsets are ignored, as browsers do
+    }
+  }
+  return new TextDecoder("utf-8");
+};
+
+/**
+ * Decodes a response body according to its Content-Type header. Text is
+ * decoded from the charset signalled by a byte order mark, declared in the
+ * header or, for HTML, declared by a `<meta>` element, defaulting to UTF-8.
+ * Binary bodies (eg images) are base64-encoded instead. Bodies without a
+ * MIME type are treated as text if they are valid UTF-8.
+ *
+ * Note that stream filters see the body after the browser has undone any
+ * Content-Encoding (eg gzip), so it need not be decompressed.
+ *
+ * @param content
+ * @param contentType Value of the Content-Type response header
+ * @param truncated Set if the body was cut off, possibly in the middle of a
+ * character, which is then dropped
+ */
+export const decodeResponseBody = (
+  content: Uint8Array,
+  contentType?: string,
+  truncated = false,
+): DecodedResponseBody => {
+  const { mimeType, charset } = parseContentType(contentType || "");
+  const decoded: DecodedResponseBody = { content: null, encoding: null };
+  if (mimeType) {
+    decoded.mimeType = mimeType;
+  }
+
+  if (!mimeType) {
+    const body = decodeUtf8Text(content, truncated);
+    if (body !== null) {
+      decoded.content = body;
+      decoded.encoding = "utf-8";
+      return decoded;
+    }
+  }
+  if (!mimeType || !isTextMimeType(mimeType)) {
+    decoded.content = encodeBase64(content);
+    decoded.encoding = "base64";
+    return decoded;
+  }
+
+  const decoder = getDecoder([
+    bomCharset(content),
+    charset,
+    mimeType === "text/html" ? sniffMetaCharset(content) : undefined,
+  ]);
+  // Streaming holds back the bytes of an incomplete last character
+  decoded.content = decoder.decode(content, { stream: truncated });
+  decoded.encoding = decoder.encoding;
+  return decoded;
+};
@@ -1,50 +1,113 @@
 import { WebRequestOnBeforeRequestEventDetails } from "../types/browser-web-request-event-details";
-import { sha256Buffer } from "./sha256";
+import { Sha256 } from "./sha256";
 
+export interface ResponseBody {
+  /**
+   * The raw bytes of the body, cut off at the max content size if any
+   */
+  content: Uint8Array;
+  /**
+   * The size in bytes of the complete body
+   */
+  size: number;
+  truncated: boolean;
+  /**
+   * SHA256 of the complete body, also when the content has been truncated.
+   * For a flushed body, SHA256 of the part of it that arrived.
+   */
+  contentHash: string;
+}
+
+/**
+ * Passes the response stream through unchanged while hashing every chunk
+ * and keeping the bytes of at most maxContentSize bytes of it
+ */
 export class ResponseBodyListener {
-  private readonly responseBody: Promise<string>;
-  private readonly contentHash: Promise<string>;
-  private resolveResponseBody: (responseBody: string) => void;
-  private resolveContentHash: (contentHash: string) => void;
-
-  constructor(details: WebRequestOnBeforeRequestEventDetails) {
-    this.responseBody = new Promise(resolve => {
-      this.resolveResponseBody = resolve;
-    });
-    this.contentHash = new Promise(resolve => {
-      this.resolveContentHash = resolve;
+  private readonly responseBody: Promise<ResponseBody>;
+  private resolveWithReceivedData: () => void;
+
+  constructor(
+    details: WebRequestOnBeforeRequestEventDetails,
+    maxContentSize?: number,
+  ) {
+    this.responseBody = new Promise((resolve, reject) => {
+      // Used to parse Response stream
+      const filter: any = browser.webRequest.filterResponseData(
+        details.requestId,
+      ) as any;
+
+      const hash = new Sha256();
+      const chunks: Uint8Array[] = [];
+      let size = 0;
+      let storedSize = 0;
+
+      filter.ondata = event => {
+        const chunk = new Uint8Array(event.data);
+        hash.update(chunk);
+        size += chunk.length;
+        if (maxContentSize === undefined || storedSize < maxContentSize) {
+          // Copy, since the underlying buffer is handed back to the filter
+          const kept =
+            maxContentSize === undefined
+              ? chunk.slice()
+              : chunk.slice(0, maxContentSize - storedSize);
+          chunks.push(kept);
+          storedSize += kept.length;
+        }
+        // pass through all the response data
+        filter.write(event.data);
+      };
+
+      let settled = false;
+      const resolveWithData = (complete: boolean) => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        const content = new Uint8Array(storedSize);
+        let offset = 0;
+        for (const chunk of chunks) {
+          content.set(chunk, offset);
+          offset += chunk.length;
+        }
+        resolve({
+          content,
+          size,
+          truncated: !complete || storedSize < size,
+          contentHash: hash.digest(),
+        });
+      };
+      this.resolveWithReceivedData = () => resolveWithData(false);
+
+      filter.onstop = _event => {
+        resolveWithData(true);
+        filter.disconnect();
+      };
+
+      filter.onerror = _event => {
+        settled = true;
+        reject(new Error("Response stream filter failed: " + filter.error));
+      };
     });
+    // The body of a request that fails or is forgotten may never be asked
+    // for, in which case a failed stream filter must not go unhandled
+    this.responseBody.catch(() => undefined);
+  }
 
-    // Used to parse Response stream
-    const filter: any = browser.webRequest.filterResponseData(
-      details.requestId,
-    ) as any;
-
-    const decoder = new TextDecoder("utf-8");
-    // const encoder = new TextEncoder();
-
-    let responseBody = "";
-    filter.ondata = event => {
-      sha256Buffer(event.data).then(digest => {
-        this.resolveContentHash(digest);
-      });
-      const str = decoder.decode(event.data, { stream: true });
-      responseBody = responseBody + str;
-      // pass through all the response data
-      filter.write(event.data);
-    };
-
-    filter.onstop = _event => {
-      this.resolveResponseBody(responseBody);
-      filter.disconnect();
-    };
+  /**
+   * Resolves the body with the data that has arrived so far, marked as
+   * truncated, unless the stream has already stopped or failed. Used when
+   * the request fails before its body is complete.
+   */
+  public flush() {
+    this.resolveWithReceivedData();
   }
 
-  public async getResponseBody() {
+  public async getResponseBody(): Promise<ResponseBody> {
     return this.responseBody;
   }
 
-  public async getContentHash() {
-    return this.contentHash;
+  public async getContentHash(): Promise<string> {
+    return (await this.responseBody).contentHash;
   }
 }
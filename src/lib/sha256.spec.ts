@@ -0,0 +1,51 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { Sha256 } from "./sha256";
+
+const bytes = (ascii: string) =>
+  new Uint8Array(ascii.split("").map(char => char.charCodeAt(0)));
+
+test("hashes the empty string", t => {
+  t.is(
+    new Sha256().digest(),
+    "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855",
+  );
+});
+
+test("hashes a short message", t => {
+  const hash = new Sha256();
+  hash.update(bytes("abc"));
+  t.is(
+    hash.digest(),
+    "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad",
+  );
+});
+
+test("gives the same digest however the content is chunked", t => {
+  const data = bytes(
+    "abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq",
+  );
+  for (const chunkSize of [1, 7, 55, 56]) {
+    const hash = new Sha256();
+    for (let offset = 0; offset < data.length; offset += chunkSize) {
+      hash.update(data.subarray(offset, offset + chunkSize));
+    }
+    t.is(
+      hash.digest(),
+      "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1",
+      "chunk size " + chunkSize,
+    );
+  }
+});
+
+test("hashes content spanning many blocks", t => {
+  const hash = new Sha256();
+  const chunk = bytes("a".repeat(1000));
+  for (let i = 0; i < 1000; i++) {
+    hash.update(chunk);
+  }
+  t.is(
+    hash.digest(),
+    "cdc76e5c9914fb9281a1c7e284d73e67f1809a48a497200e046d39ccc7112cd0",
+  );
+});
@@ -14,3 +14,60 @@ export const escapeString = function(str: any) {
 export const boolToInt = function(bool: boolean) {
   return bool ? 1 : 0;
 };
+
+/**
+ * Returns the bytes decoded as UTF-8 text, or null if they look binary
+ *
+ * @param bytes
+ * @param truncated Set if the bytes may end in the middle of a character,
+ * which is then dropped
+ */
+export const decodeUtf8Text = function(
+  bytes: Uint8Array,
+  truncated = false,
+): string | null {
+  let text;
+  try {
+    text = new TextDecoder("utf-8", { fatal: true }).decode(bytes, {
+      stream: truncated,
+    });
+  } catch (e) {
+    return null;
+  }
+  // Valid UTF-8 may still be binary data, eg protocol buffers
+  if (/[\x00-\x08\x0E-\x1F]/.test(text)) {
+    return null;
+  }
+  return text;
+};
+
+/**
+ * Returns the longest start of the string that takes at most maxBytes bytes
+ * of UTF-8, without cutting a character (or surrogate pair) in two
+ *
+ * @param str
+ * @param maxBytes
+ */
+export const truncateUtf8 = function(str: string, maxBytes: number): string {
+  const bytes = new TextEncoder().encode(str);
+  if (bytes.length <= maxBytes) {
+    return str;
+  }
+  // Streaming holds back the bytes of a character that was cut off
+  return new TextDecoder().decode(bytes.subarray(0, maxBytes), {
+    stream: true,
+  });
+};
+
+export const encodeBase64 = function(bytes: Uint8Array) {
+  // String.fromCharCode can only handle a limited number of arguments
+  const chunkSize = 0x8000;
+  let binaryString = "";
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binaryString += String.fromCharCode.apply(
+      null,
+      bytes.subarray(i, i + chunkSize),
+    );
+  }
+  return btoa(binaryString);
+};
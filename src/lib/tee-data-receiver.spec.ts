@@ -0,0 +1,65 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { DataReceiver } from "./data-receiver";
+import { InMemoryDataReceiver } from "./in-memory-data-receiver";
+import { TeeDataReceiver } from "./tee-data-receiver";
+
+const redirect = {
+  old_request_id: "1",
+  time_stamp: "2018-01-01T00:00:00.000Z",
+};
+
+/**
+ * Returns a data receiver that notes each call it receives, prefixed with
+ * its name
+ *
+ * @param name
+ * @param calls
+ */
+const recordingReceiver = (name: string, calls: string[]): DataReceiver => ({
+  saveRecord: table => calls.push(name + " saveRecord " + table),
+  saveContent: (_content, contentHash) =>
+    calls.push(name + " saveContent " + contentHash),
+  logError: message => calls.push(name + " logError " + message),
+  logDebug: message => calls.push(name + " logDebug " + message),
+});
+
+test("passes every call on to all receivers in order", t => {
+  const calls: string[] = [];
+  const tee = new TeeDataReceiver([
+    recordingReceiver("first", calls),
+    recordingReceiver("second", calls),
+  ]);
+  tee.saveRecord("http_redirects", redirect);
+  tee.saveContent("body", "hash");
+  tee.logError("error");
+  tee.logDebug("debug");
+  t.deepEqual(calls, [
+    "first saveRecord http_redirects",
+    "second saveRecord http_redirects",
+    "first saveContent hash",
+    "second saveContent hash",
+    "first logError error",
+    "second logError error",
+    "first logDebug debug",
+    "second logDebug debug",
+  ]);
+});
+
+test("passes calls on to the other receivers when one throws", t => {
+  const failing: DataReceiver = {
+    saveRecord: () => {
+      throw new Error("Connection lost");
+    },
+    saveContent: () => undefined,
+    logError: () => undefined,
+    logDebug: () => undefined,
+  };
+  const working = new InMemoryDataReceiver();
+  const tee = new TeeDataReceiver([failing, working]);
+  t.throws(() => tee.saveRecord("http_redirects", redirect), "Connection lost");
+  t.deepEqual(working.getRecords("http_redirects"), [redirect]);
+
+  tee.logDebug("debug");
+  t.deepEqual(working.debugMessages, ["debug"]);
+});
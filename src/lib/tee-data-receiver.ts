@@ -0,0 +1,51 @@
+import { TableName, TableRecords } from "../schema";
+import { DataReceiver } from "./data-receiver";
+
+/**
+ * Fans out every call to several data receivers, eg to store records locally
+ * while also streaming them to a remote collector
+ */
+export class TeeDataReceiver implements DataReceiver {
+  private readonly dataReceivers: DataReceiver[];
+
+  constructor(dataReceivers: DataReceiver[]) {
+    this.dataReceivers = dataReceivers;
+  }
+
+  public saveRecord<T extends TableName>(table: T, record: TableRecords[T]) {
+    this.fanOut(dataReceiver => dataReceiver.saveRecord(table, record));
+  }
+
+  public saveContent(content: string, contentHash: string) {
+    this.fanOut(dataReceiver => dataReceiver.saveContent(content, contentHash));
+  }
+
+  public logError(message: string) {
+    this.fanOut(dataReceiver => dataReceiver.logError(message));
+  }
+
+  public logDebug(message: string) {
+    this.fanOut(dataReceiver => dataReceiver.logDebug(message));
+  }
+
+  /**
+   * Passes the call on to all data receivers in order. One that throws does
+   * not keep the others from receiving it; the first error is rethrown once
+   * all of them were called.
+   *
+   * @param call
+   */
+  private fanOut(call: (dataReceiver: DataReceiver) => void) {
+    const errors = [];
+    this.dataReceivers.forEach(dataReceiver => {
+      try {
+        call(dataReceiver);
+      } catch (error) {
+        errors.push(error);
+      }
+    });
+    if (errors.length > 0) {
+      throw errors[0];
+    }
+  }
+}
@@ -0,0 +1,26 @@
+// tslint:disable:no-expression-statement
+import test from "ava";
+import { getEtldPlusOne, isThirdPartyUrl } from "./third-party";
+
+test("getEtldPlusOne", t => {
+  t.is(getEtldPlusOne("www.example.com"), "example.com");
+  t.is(getEtldPlusOne("a.b.example.co.uk"), "example.co.uk");
+  t.is(getEtldPlusOne("user.github.io"), "user.github.io");
+  t.is(getEtldPlusOne("WWW.Example.com."), "example.com");
+  t.is(getEtldPlusOne("localhost"), "localhost");
+  t.is(getEtldPlusOne("192.168.0.1"), "192.168.0.1");
+  t.is(getEtldPlusOne("[::1]"), "[::1]");
+});
+
+test("isThirdPartyUrl", t => {
+  t.false(
+    isThirdPartyUrl("https://cdn.example.com/a.js", "http://www.example.com/"),
+  );
+  t.true(isThirdPartyUrl("https://tracker.com/p.gif", "https://example.com/"));
+  t.true(isThirdPartyUrl("https://a.github.io/", "https://b.github.io/"));
+  t.is(isThirdPartyUrl("https://example.com/", undefined), undefined);
+  t.is(
+    isThirdPartyUrl("data:text/plain,hi", "https://example.com/"),
+    undefined,
+  );
+});
@@ -0,0 +1,52 @@
+import { get as getRegistrableDomain } from "psl";
+
+/**
+ * Third-party checks based on eTLD+1 comparisons, using the Public Suffix
+ * List bundled with the psl package so that no network access is needed
+ */
+
+const isIpAddress = (hostname: string) =>
+  /^\d+\.\d+\.\d+\.\d+$/.test(hostname) || hostname.indexOf(":") > -1;
+
+/**
+ * Returns the eTLD+1 of the hostname (eg "example.co.uk" for
+ * "www.example.co.uk"). IP addresses, hosts without a registrable domain
+ * (eg "localhost") and public suffixes are returned as is.
+ *
+ * @param hostname
+ */
+export const getEtldPlusOne = (hostname: string): string => {
+  hostname = hostname.toLowerCase().replace(/\.$/, "");
+  if (isIpAddress(hostname)) {
+    return hostname;
+  }
+  return getRegistrableDomain(hostname) || hostname;
+};
+
+const getHostname = (url: string) => {
+  try {
+    return new URL(url).hostname;
+  } catch (e) {
+    return "";
+  }
+};
+
+/**
+ * Returns true if the eTLD+1 of the url differs from the one of the
+ * reference url, or undefined if either of them has no hostname
+ * (eg data: and about:blank URLs)
+ *
+ * @param url
+ * @param referenceUrl
+ */
+export const isThirdPartyUrl = (
+  url: string,
+  referenceUrl: string,
+): boolean | undefined => {
+  const hostname = getHostname(url);
+  const referenceHostname = referenceUrl ? getHostname(referenceUrl) : "";
+  if (!hostname || !referenceHostname) {
+    return undefined;
+  }
+  return getEtldPlusOne(hostname) !== getEtldPlusOne(referenceHostname);
+};
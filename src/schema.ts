@@ -6,6 +6,8 @@ export interface HttpRequest {
   id?: number;
   crawl_id?: number;
   visit_id?: number;
+  tab_id?: number;
+  frame_id?: number;
   url: string;
   top_level_url?: string;
   parent_frame_id?: number;
@@ -25,6 +27,7 @@ export interface HttpRequest {
   req_call_stack?: string;
   resource_type: string;
   post_body?: string;
+  post_body_raw?: string;
   time_stamp: DateTime;
 }
 
@@ -32,6 +35,8 @@ export interface HttpResponse {
   id?: number;
   crawl_id?: number;
   visit_id?: number;
+  tab_id?: number;
+  frame_id?: number;
   url: string;
   method: string;
   referrer: string;
@@ -43,14 +48,115 @@ export interface HttpResponse {
   location: string;
   time_stamp: DateTime;
   content_hash?: string;
+  /** Size in bytes of the complete response body */
+  content_size?: number;
+  /** Set when only the first maxContentSize bytes of the body were saved */
+  content_truncated?: number;
+  /** The MIME type declared by the Content-Type header */
+  content_mime_type?: string;
+  /**
+   * The charset the saved body was decoded from (eg "utf-8" or
+   * "shift_jis"), or "base64" for binary bodies, which are saved
+   * base64-encoded. Unrelated to the Content-Encoding header, which the
+   * browser has undone before the body is saved.
+   */
+  content_encoding?: string;
+  /** IP address of the server that the request was sent to, if known */
+  server_ip?: string;
 }
 
 export interface HttpRedirect {
   id?: number;
   crawl_id?: number;
   visit_id?: number;
+  tab_id?: number;
+  frame_id?: number;
+  old_request_url?: string;
   old_request_id?: string;
+  new_request_url?: string;
   new_request_id?: string;
+  response_status?: number;
+  response_status_text?: string;
+  headers?: string;
+  time_stamp: DateTime;
+}
+
+/**
+ * When each phase of a completed request happened, as reported by the
+ * corresponding webRequest events
+ */
+export interface HttpTiming {
+  id?: number;
+  crawl_id?: number;
+  visit_id?: number;
+  tab_id?: number;
+  frame_id?: number;
+  request_id?: string;
+  url?: string;
+  resource_type?: string;
+  is_cached?: number;
+  server_ip?: string;
+  /** onBeforeRequest */
+  request_start?: DateTime;
+  /** onSendHeaders */
+  headers_sent?: DateTime;
+  /** onHeadersReceived */
+  headers_received?: DateTime;
+  /** onCompleted */
+  response_end?: DateTime;
+}
+
+/**
+ * The TLS connection and certificate chain of a secure request, saved for
+ * the first request to each host
+ */
+export interface TlsInfo {
+  id?: number;
+  crawl_id?: number;
+  visit_id?: number;
+  tab_id?: number;
+  frame_id?: number;
+  request_id?: string;
+  /** Hostname and port, if not the default one */
+  host: string;
+  state: "secure" | "weak" | "broken";
+  /** Why the connection is considered broken */
+  error_message?: string;
+  protocol_version?: string;
+  cipher_suite?: string;
+  key_exchange_group?: string;
+  signature_scheme?: string;
+  /** JSON list of the SHA-256 fingerprints of the chain, starting with the server certificate */
+  certificate_fingerprints: string;
+  certificate_subject?: string;
+  certificate_issuer?: string;
+  certificate_valid_from?: DateTime;
+  certificate_valid_until?: DateTime;
+  is_hsts: number;
+  certificate_transparency_status?: string;
+  time_stamp: DateTime;
+}
+
+export interface HttpError {
+  id?: number;
+  crawl_id?: number;
+  visit_id?: number;
+  tab_id?: number;
+  frame_id?: number;
+  request_id?: string;
+  url?: string;
+  method?: string;
+  resource_type?: string;
+  is_cached?: number;
+  error?: string;
+  /** Hash of the part of the response body that arrived before the error */
+  content_hash?: string;
+  /** Size in bytes of the part of the response body that arrived */
+  content_size?: number;
+  /** Always set when there is a content_hash, as the body is incomplete */
+  content_truncated?: number;
+  content_mime_type?: string;
+  content_encoding?: string;
   time_stamp: DateTime;
 }
 
@@ -58,6 +164,8 @@ export interface JavascriptOperation {
   id?: number;
   crawl_id?: number;
   visit_id?: number;
+  tab_id?: number;
+  frame_id?: number;
   script_url?: string;
   script_line?: string;
   script_col?: string;
@@ -77,7 +185,9 @@ export interface JavascriptCookieChange {
   id?: number;
   crawl_id?: number;
   visit_id?: number;
+  tab_id?: number;
   change?: "deleted" | "added" | "changed";
+  /** Changed cookies have the cause "overwrite" */
   change_cause?: OnChangedCause;
   expiry?: DateTime;
   is_http_only?: number;
@@ -90,5 +200,217 @@ export interface JavascriptCookieChange {
   value?: string;
   same_site?: string;
   first_party_domain?: string;
+  store_id?: string;
+  /** The name of the container that uses the cookie store, or "default" or "private" */
+  store_name?: string;
+  /** The ids of the tabs that used the cookie store when it changed, as a JSON array */
+  store_tab_ids?: string;
+  /** The value of a changed cookie before the change */
+  previous_value?: string;
+  /** The expiry of a changed cookie before the change */
+  previous_expiry?: DateTime;
+  /**
+   * The script that caused the change by writing to document.cookie, if the
+   * CookieInstrument's recordScriptSets option is enabled
+   */
+  script_url?: string;
+  call_stack?: string;
+  /**
+   * The request whose response caused the change with a Set-Cookie header,
+   * if the CookieInstrument's recordResponseSets option is enabled
+   */
+  request_id?: string;
+  time_stamp: DateTime;
+}
+
+/**
+ * A cookie string that a script wrote to document.cookie, broken down into
+ * the attributes it sets. The resulting cookies are recorded to
+ * `javascript_cookies`.
+ */
+export interface JavascriptCookieSet {
+  id?: number;
+  crawl_id?: number;
+  visit_id?: number;
+  tab_id: number;
+  frame_id: number;
+  document_url: string;
+  top_level_url?: string;
+  script_url?: string;
+  script_line?: string;
+  script_col?: string;
+  func_name?: string;
+  call_stack?: string;
+  cookie_string: string;
+  name: string;
+  value: string;
+  domain?: string;
+  path?: string;
+  expires?: DateTime;
+  /** In seconds */
+  max_age?: number;
+  same_site?: string;
+  is_secure: number;
+  time_stamp: DateTime;
+}
+
+/**
+ * A cookie that was in one of the browser's cookie stores when a snapshot
+ * was taken, see the CookieInstrument's snapshotCookies option. All cookies
+ * of a snapshot share its time_stamp.
+ */
+export interface CookieSnapshot {
+  id?: number;
+  crawl_id?: number;
+  store_id: string;
+  /** The name of the container that uses the cookie store, or "default" or "private" */
+  store_name?: string;
+  expiry?: DateTime;
+  is_http_only?: number;
+  is_host_only?: number;
+  is_session?: number;
+  host?: string;
+  is_secure?: number;
+  name?: string;
+  path?: string;
+  value?: string;
+  same_site?: string;
+  first_party_domain?: string;
+  time_stamp: DateTime;
+}
+
+export interface Navigation {
+  id?: number;
+  crawl_id?: number;
+  visit_id?: number;
+  tab_id: number;
+  frame_id: number;
+  parent_frame_id?: number;
+  event:
+    | "before_navigate"
+    | "committed"
+    | "completed"
+    | "history_state_updated";
+  url: string;
+  transition_type?: string;
+  transition_qualifiers?: string;
+  time_stamp: DateTime;
+}
+
+/**
+ * An event of a WebSocket connection, as observed by the page script. The
+ * WebSocket API does not expose the frames themselves, so only text (opcode
+ * 0x1) and binary (opcode 0x2) data frames are recorded, but not control or
+ * continuation frames.
+ */
+export interface WebSocketFrame {
+  id?: number;
+  crawl_id?: number;
+  visit_id?: number;
+  tab_id: number;
+  frame_id: number;
+  /** The request_id of the handshake request, if it was observed */
+  request_id?: string;
+  /** Identifies the connection across its events */
+  connection_id: string;
+  url: string;
+  event: "open" | "frame" | "close" | "error";
+  direction?: "sent" | "received";
+  opcode?: number;
+  /** Size of the frame payload in bytes */
+  size?: number;
+  /** Payload of text frames, or of binary frames encoded as base64 */
+  payload?: string;
+  payload_truncated?: number;
+  close_code?: number;
+  close_reason?: string;
+  time_stamp: DateTime;
+}
+
+/**
+ * An access to client-side storage by a script, as observed by the page
+ * script. Unlike the `javascript` records of Storage.prototype calls, these
+ * tell localStorage and sessionStorage apart.
+ */
+export interface JavascriptStorage {
+  id?: number;
+  crawl_id?: number;
+  visit_id?: number;
+  tab_id: number;
+  frame_id: number;
+  document_url: string;
+  top_level_url?: string;
+  script_url?: string;
+  script_line?: string;
+  script_col?: string;
+  func_name?: string;
+  script_loc_eval?: string;
+  call_stack?: string;
+  storage_area:
+    | "localStorage"
+    | "sessionStorage"
+    | "indexedDB"
+    | "cache"
+    | "cookie";
+  operation: "open" | "get" | "set" | "remove" | "clear";
+  /** The IndexedDB database and object store (as "database/store"), or cache */
+  storage_name?: string;
+  /** Storage key, IndexedDB key as JSON, request URL of a cache entry, or cookie name */
+  key?: string;
+  /** Size in bytes of the value, of its JSON serialization or of the cached response body */
+  value_size?: number;
+  /** The value, or its JSON serialization. Not saved for cache entries. */
+  value?: string;
+  value_truncated?: number;
   time_stamp: DateTime;
 }
+
+/**
+ * Resolution of a request hostname, saved once per distinct hostname and
+ * linked to the first completed request to it
+ */
+export interface DnsResponse {
+  id?: number;
+  crawl_id?: number;
+  visit_id?: number;
+  tab_id?: number;
+  request_id?: string;
+  hostname: string;
+  /**
+   * The name at the end of the CNAME chain, which is the hostname itself if
+   * it has no CNAME record. Firefox does not report the names in between.
+   */
+  canonical_name?: string;
+  /** Set when the canonical name differs from the hostname */
+  is_cname: number;
+  /** JSON list of the addresses the hostname resolves to */
+  addresses: string;
+  /** The address the request was actually sent to */
+  used_address?: string;
+  /** Set when resolved with DNS over HTTPS (Trusted Recursive Resolver) */
+  is_TRR: number;
+  time_stamp: DateTime;
+}
+
+/**
+ * Maps each table name that instruments write to onto the record type
+ * stored in that table
+ */
+export interface TableRecords {
+  http_requests: HttpRequest;
+  http_responses: HttpResponse;
+  http_redirects: HttpRedirect;
+  http_errors: HttpError;
+  http_timings: HttpTiming;
+  tls_info: TlsInfo;
+  javascript: JavascriptOperation;
+  javascript_cookies: JavascriptCookieChange;
+  javascript_cookie_sets: JavascriptCookieSet;
+  cookie_snapshots: CookieSnapshot;
+  javascript_storage: JavascriptStorage;
+  navigations: Navigation;
+  websocket_frames: WebSocketFrame;
+  dns_responses: DnsResponse;
+}
+
+export type TableName = keyof TableRecords;
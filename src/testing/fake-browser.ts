@@ -0,0 +1,304 @@
+/**
+ * A fake WebExtension runtime for testing the instruments without launching
+ * Firefox. It implements the parts of the `browser.*` APIs that the
+ * instruments use, and lets tests replay scripted sequences of browser events.
+ *
+ * Usage (in a spec, with `test.serial` since `browser` is a global):
+ *
+ *   const fakeBrowser = installFakeBrowser();
+ *   const instrument = new HttpInstrument(dataReceiver);
+ *   instrument.run(crawlID);
+ *   await fakeBrowser.replay(requestEvents({ requestId: "1", url: "..." }));
+ */
+
+import ContextualIdentity = browser.contextualIdentities.ContextualIdentity;
+import Cookie = browser.cookies.Cookie;
+import CookieStore = browser.cookies.CookieStore;
+import Tab = browser.tabs.Tab;
+import SecurityInfo = browser.webRequest.SecurityInfo;
+import { FakeEvent, matchesRequestFilter } from "./fake-event";
+import { FakeStreamFilter } from "./fake-stream-filter";
+
+// The tests run in Node, whose typings are not part of this project
+declare const global: any;
+declare const require: (id: string) => any;
+
+export type ScriptedEvent =
+  /** Dispatches an event to its listeners, eg `"webRequest.onCompleted"` */
+  | { dispatch: string; args: any[] }
+  /** Feeds a chunk of the response body to the stream filter of a request */
+  | { responseData: string; data: string | Uint8Array }
+  | { responseEnd: string }
+  | { responseError: string; error: string };
+
+export class FakeBrowser {
+  public readonly runtime = {
+    id: "fake-extension@openwpm",
+    onMessage: new FakeEvent(),
+    sendMessage: async message => {
+      this.sentMessages.push(message);
+    },
+  };
+  public readonly webRequest = {
+    onBeforeRequest: new FakeEvent(matchesRequestFilter),
+    onBeforeSendHeaders: new FakeEvent(matchesRequestFilter),
+    onSendHeaders: new FakeEvent(matchesRequestFilter),
+    onHeadersReceived: new FakeEvent(matchesRequestFilter),
+    onBeforeRedirect: new FakeEvent(matchesRequestFilter),
+    onResponseStarted: new FakeEvent(matchesRequestFilter),
+    onCompleted: new FakeEvent(matchesRequestFilter),
+    onErrorOccurred: new FakeEvent(matchesRequestFilter),
+    filterResponseData: (requestId: string) => {
+      const streamFilter = new FakeStreamFilter();
+      this.streamFilters[requestId] = streamFilter;
+      return streamFilter;
+    },
+    getSecurityInfo: async (
+      requestId: string,
+      options: { certificateChain?: boolean } = {},
+    ): Promise<SecurityInfo> => {
+      const securityInfo = this.securityInfos[requestId] || {
+        state: "insecure",
+        certificates: [],
+      };
+      // Only the server certificate is returned unless the chain is asked for
+      return options.certificateChain
+        ? securityInfo
+        : {
+            ...securityInfo,
+            certificates: securityInfo.certificates.slice(0, 1),
+          };
+    },
+  };
+  public readonly cookies = {
+    getAll: async (details: {
+      storeId?: string;
+      firstPartyDomain?: string;
+    }): Promise<Cookie[]> => {
+      // As when first-party isolation is enabled
+      if (details.firstPartyDomain === undefined) {
+        throw new Error("Missing firstPartyDomain");
+      }
+      return this.storedCookies.filter(
+        cookie =>
+          cookie.storeId === (details.storeId || "firefox-default") &&
+          (details.firstPartyDomain === null ||
+            cookie.firstPartyDomain === details.firstPartyDomain),
+      );
+    },
+    getAllCookieStores: async (): Promise<CookieStore[]> => this.cookieStores,
+    onChanged: new FakeEvent(),
+  };
+  public readonly contextualIdentities = {
+    get: async (cookieStoreId: string): Promise<ContextualIdentity> => {
+      const identity = this.identities.find(
+        candidate => candidate.cookieStoreId === cookieStoreId,
+      );
+      if (!identity) {
+        throw new Error("Invalid contextual identity: " + cookieStoreId);
+      }
+      return identity;
+    },
+  };
+  public readonly tabs = {
+    get: async (tabId: number): Promise<Tab> => {
+      if (!this.openTabs[tabId]) {
+        throw new Error("Invalid tab ID: " + tabId);
+      }
+      return this.openTabs[tabId];
+    },
+    query: async (_queryInfo): Promise<Tab[]> =>
+      Object.keys(this.openTabs).map(tabId => this.openTabs[tabId]),
+    onRemoved: new FakeEvent(),
+  };
+  public readonly webNavigation = {
+    onBeforeNavigate: new FakeEvent(),
+    onCommitted: new FakeEvent(),
+    onCompleted: new FakeEvent(),
+    onHistoryStateUpdated: new FakeEvent(),
+  };
+
+  public openTabs: { [tabId: number]: Tab } = {};
+  /** The cookies returned by cookies.getAll */
+  public storedCookies: Cookie[] = [];
+  public cookieStores: CookieStore[] = [
+    { id: "firefox-default", tabIds: [], incognito: false },
+  ];
+  /** The containers returned by contextualIdentities.get */
+  public identities: ContextualIdentity[] = [];
+  public streamFilters: { [requestId: string]: FakeStreamFilter } = {};
+  /** The security info returned by webRequest.getSecurityInfo */
+  public securityInfos: { [requestId: string]: SecurityInfo } = {};
+  /** Messages sent with runtime.sendMessage */
+  public sentMessages = [];
+
+  public openTab(tab: Partial<Tab> & { id: number; url: string }) {
+    this.openTabs[tab.id] = {
+      index: 0,
+      windowId: 1,
+      highlighted: false,
+      active: true,
+      pinned: false,
+      incognito: false,
+      ...tab,
+    };
+  }
+
+  /**
+   * Replays the events in order, and waits for the listeners to settle
+   * before returning. Response body events for requests that no stream
+   * filter was requested for are dropped, as the body is then not
+   * observable by the extension.
+   *
+   * @param events
+   */
+  public async replay(events: ScriptedEvent[]) {
+    for (const event of events) {
+      if ("dispatch" in event) {
+        this.getEvent(event.dispatch).dispatch(...event.args);
+      } else if ("responseData" in event) {
+        const streamFilter = this.streamFilters[event.responseData];
+        if (streamFilter) {
+          const data =
+            typeof event.data === "string"
+              ? new global.TextEncoder().encode(event.data)
+              : event.data;
+          streamFilter.ondata({ data: data.slice().buffer });
+        }
+      } else if ("responseEnd" in event) {
+        const streamFilter = this.streamFilters[event.responseEnd];
+        if (streamFilter) {
+          streamFilter.onstop({});
+        }
+      } else {
+        const streamFilter = this.streamFilters[event.responseError];
+        if (streamFilter) {
+          streamFilter.error = event.error;
+          streamFilter.onerror({});
+        }
+      }
+      await settle();
+    }
+  }
+
+  private getEvent(name: string): FakeEvent {
+    const [api, eventName] = name.split(".");
+    const event = this[api] && this[api][eventName];
+    if (!(event instanceof FakeEvent)) {
+      throw new Error("Unknown event: " + name);
+    }
+    return event;
+  }
+}
+
+/**
+ * Waits for pending promise callbacks and timers that are due
+ *
+ * @param ms
+ */
+export const settle = (ms = 0) =>
+  new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Makes a fresh fake browser the `browser` global, along with the web APIs
+ * that Node lacks
+ */
+export const installFakeBrowser = (): FakeBrowser => {
+  const fakeBrowser = new FakeBrowser();
+  global.browser = fakeBrowser;
+  if (!global.TextEncoder) {
+    const util = require("util");
+    global.TextEncoder = util.TextEncoder;
+    global.TextDecoder = util.TextDecoder;
+  }
+  if (!global.btoa) {
+    global.btoa = (binaryString: string) =>
+      global.Buffer.from(binaryString, "binary").toString("base64");
+  }
+  return fakeBrowser;
+};
+
+export interface FakeRequest {
+  requestId: string;
+  url: string;
+  method?: string;
+  type?: browser.webRequest.ResourceType;
+  tabId?: number;
+  frameId?: number;
+  parentFrameId?: number;
+  windowId?: number;
+  originUrl?: string;
+  documentUrl?: string;
+  timeStamp?: number;
+  requestHeaders?: browser.webRequest.HttpHeaders;
+  requestBody?: any;
+  statusCode?: number;
+  statusLine?: string;
+  responseHeaders?: browser.webRequest.HttpHeaders;
+  fromCache?: boolean;
+  ip?: string;
+  /** Chunks of the response body, only fed to a stream filter if one was requested */
+  responseBody?: Array<string | Uint8Array>;
+}
+
+/**
+ * Returns the event details that all webRequest events share
+ *
+ * @param request
+ */
+export const requestDetails = (request: FakeRequest) => ({
+  requestId: request.requestId,
+  url: request.url,
+  method: request.method || "GET",
+  type: request.type || "main_frame",
+  tabId: request.tabId !== undefined ? request.tabId : 1,
+  frameId: request.frameId || 0,
+  parentFrameId:
+    request.parentFrameId !== undefined ? request.parentFrameId : -1,
+  windowId: request.windowId !== undefined ? request.windowId : 1,
+  originUrl: request.originUrl,
+  documentUrl: request.documentUrl,
+  frameAncestors: [],
+  timeStamp: request.timeStamp || Date.UTC(2018, 0, 1),
+});
+
+/**
+ * Returns the events of a request that completes without redirects:
+ * onBeforeRequest, onBeforeSendHeaders, the response body (if any) and
+ * onCompleted
+ *
+ * @param request
+ */
+export const requestEvents = (request: FakeRequest): ScriptedEvent[] => {
+  const details = requestDetails(request);
+  const events: ScriptedEvent[] = [
+    {
+      dispatch: "webRequest.onBeforeRequest",
+      args: [{ ...details, requestBody: request.requestBody }],
+    },
+    {
+      dispatch: "webRequest.onBeforeSendHeaders",
+      args: [{ ...details, requestHeaders: request.requestHeaders || [] }],
+    },
+  ];
+  if (request.responseBody) {
+    request.responseBody.forEach(data =>
+      events.push({ responseData: request.requestId, data }),
+    );
+    events.push({ responseEnd: request.requestId });
+  }
+  events.push({
+    dispatch: "webRequest.onCompleted",
+    args: [
+      {
+        ...details,
+        statusCode: request.statusCode || 200,
+        statusLine: request.statusLine || "HTTP/1.1 200 OK",
+        responseHeaders: request.responseHeaders || [],
+        fromCache: request.fromCache || false,
+        ip: request.ip,
+      },
+    ],
+  });
+  return events;
+};
@@ -0,0 +1,64 @@
+import { urlMatchesPatterns } from "../lib/match-patterns";
+import RequestFilter = browser.webRequest.RequestFilter;
+
+/**
+ * Applies the request filter that webRequest listeners are registered with
+ *
+ * @param filter
+ * @param args
+ */
+export const matchesRequestFilter = (filter: RequestFilter, args: any[]) => {
+  const details = args[0];
+  return (
+    urlMatchesPatterns(details.url, filter.urls) &&
+    (!filter.types || filter.types.indexOf(details.type) > -1) &&
+    (filter.tabId === undefined || filter.tabId === details.tabId) &&
+    (filter.windowId === undefined || filter.windowId === details.windowId)
+  );
+};
+
+/**
+ * Stands in for the events of the browser.* APIs
+ */
+export class FakeEvent {
+  private readonly matchesFilter: (filter, args: any[]) => boolean;
+  private listeners: Array<{
+    listener: (...args) => any;
+    filter?;
+  }> = [];
+
+  /**
+   * @param matchesFilter Decides whether a listener that was registered
+   * with a filter gets to see an event
+   */
+  constructor(matchesFilter = (_filter, _args: any[]) => true) {
+    this.matchesFilter = matchesFilter;
+  }
+
+  public addListener(listener: (...args) => any, filter?) {
+    this.listeners.push({ listener, filter });
+  }
+
+  public removeListener(listener: (...args) => any) {
+    this.listeners = this.listeners.filter(
+      entry => entry.listener !== listener,
+    );
+  }
+
+  public hasListener(listener: (...args) => any) {
+    return this.listeners.some(entry => entry.listener === listener);
+  }
+
+  public hasListeners() {
+    return this.listeners.length > 0;
+  }
+
+  /**
+   * Calls all listeners and returns what they returned
+   */
+  public dispatch(...args): any[] {
+    return this.listeners
+      .filter(entry => !entry.filter || this.matchesFilter(entry.filter, args))
+      .map(entry => entry.listener(...args));
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Stands in for the StreamFilter returned by filterResponseData. Tests feed
+ * it response data through the responseData/responseEnd/responseError events
+ * of FakeBrowser.replay.
+ */
+export class FakeStreamFilter {
+  public ondata: (event: { data: ArrayBuffer }) => void;
+  public onstop: (event) => void;
+  public onerror: (event) => void;
+  public error = "";
+  /** The data passed on to the page */
+  public written: ArrayBuffer[] = [];
+  public disconnected = false;
+
+  public write(data: ArrayBuffer) {
+    this.written.push(data);
+  }
+
+  public disconnect() {
+    this.disconnected = true;
+  }
+
+  public close() {
+    this.disconnected = true;
+  }
+}